@@ -5,7 +5,7 @@
  * Run with: bun examples/basic-usage.ts
  */
 
-import { Surpay } from '../src/index.js'
+import { Surpay, autoPaginate, isSurpayError } from '../src/index.js'
 
 // Initialize the client
 const env = typeof process !== 'undefined' ? process.env : {}
@@ -82,7 +82,7 @@ async function main() {
     process.exit(1)
   }
 
-  for (const { product: p, prices } of productsWithPrices) {
+  for (const { product: p, prices } of productsWithPrices.data) {
     console.log(`- ${p.name} (${prices.length} prices)`)
     for (const price of prices) {
       const amount = price.price_amount ?? 0
@@ -121,11 +121,11 @@ async function main() {
     console.error('Failed to list customers:', customersError.message)
     process.exit(1)
   }
-  console.log(`Found ${customers.length} customers`)
+  console.log(`Found ${customers.data.length} customers${customers.hasMore ? ' (first page)' : ''}`)
 
-  if (customers.length > 0) {
+  if (customers.data.length > 0) {
     // Get detailed info for first customer
-    const { data: customer, error: customerError } = await surpay.customers.get(customers[0].id)
+    const { data: customer, error: customerError } = await surpay.customers.get(customers.data[0].id)
 
     if (customerError) {
       console.error('Failed to get customer:', customerError.message)
@@ -146,20 +146,24 @@ async function main() {
     console.error('Failed to list subscriptions:', subsError.message)
     process.exit(1)
   }
-  const activeCount = subscriptions.filter((s) => s.status === 'active').length
-  console.log(`${activeCount} active / ${subscriptions.length} total subscriptions`)
+  const activeCount = subscriptions.data.filter((s) => s.status === 'active').length
+  console.log(`${activeCount} active / ${subscriptions.data.length} subscriptions on the first page`)
 
   // =========================================================================
-  // 7. List Transactions
+  // 7. Sum Revenue Across Every Page of Transactions
   // =========================================================================
   console.log('\nListing transactions...')
-  const { data: transactions, error: txError } = await surpay.transactions.list()
-
-  if (txError) {
+  let totalRevenue = 0
+  try {
+    for await (const transaction of autoPaginate(surpay.transactions.list, { limit: 100 })) {
+      totalRevenue += transaction.amount
+    }
+  } catch (txError) {
+    // autoPaginate throws the SurpayError of the first failed page
+    if (!isSurpayError(txError)) throw txError
     console.error('Failed to list transactions:', txError.message)
     process.exit(1)
   }
-  const totalRevenue = transactions.reduce((sum, t) => sum + t.amount, 0)
   console.log(`Total revenue: $${(totalRevenue / 100).toFixed(2)}`)
 
   console.log('\nDone!')
@@ -0,0 +1,61 @@
+import { describe, test, expect } from "bun:test";
+import { MockSurpay } from "@surgent/pay/testing";
+import { Surpay, IdentifierOpts } from "./index.js";
+
+type Handler = (ctx: unknown, args: unknown) => Promise<{ data: unknown; error: unknown }>;
+
+// Registered actions keep their handler on `_handler`; calling it directly skips the Convex runtime
+const run = (action: unknown, args: unknown) => (action as { _handler: Handler })._handler({}, args);
+
+const setup = async (identity: (customerId: string) => IdentifierOpts | null) => {
+  const mock = new MockSurpay();
+  const { data: customer } = await mock.client().customers.create({ externalId: "user_1" });
+  const surpay = new Surpay({
+    apiKey: "test_key",
+    fetch: mock.fetch,
+    retry: { maxAttempts: 1 },
+    identify: async () => identity(customer!.id),
+  });
+  mock.requests.length = 0;
+  return { mock, api: surpay.api(), customerId: customer!.id };
+};
+
+describe("createPortalSession", () => {
+  test("opens the portal for the identified customer", async () => {
+    const { mock, api, customerId } = await setup((customerId) => ({ customerId }));
+
+    const { data, error } = await run(api.createPortalSession, { returnUrl: "https://app.test/account" });
+
+    expect(error).toBeNull();
+    expect(data).toMatchObject({ customerId });
+    expect(mock.requests).toMatchObject([
+      {
+        method: "POST",
+        path: "/portal/sessions",
+        body: { customerId, returnUrl: "https://app.test/account" },
+      },
+    ]);
+  });
+
+  test("fails without a request when the user is not signed in", async () => {
+    const { mock, api } = await setup(() => null);
+
+    const { data, error } = await run(api.createPortalSession, { returnUrl: "https://app.test/account" });
+
+    expect(data).toBeNull();
+    expect(error).toMatchObject({ message: expect.stringContaining("Authentication required") });
+    expect(mock.requests).toHaveLength(0);
+  });
+});
+
+describe("check", () => {
+  test("requires a product or a feature", async () => {
+    const { mock, api } = await setup((customerId) => ({ customerId }));
+
+    const { data, error } = await run(api.check, {});
+
+    expect(data).toBeNull();
+    expect(error).toEqual({ message: "One of productId, productSlug or featureId is required", code: undefined });
+    expect(mock.requests).toHaveLength(0);
+  });
+});
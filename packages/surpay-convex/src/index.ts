@@ -23,24 +23,34 @@
  * export const {
  *   createCheckout,
  *   guestCheckout,
+ *   createPortalSession,
  *   check,
+ *   listEntitlements,
  *   listProducts,
  *   getCustomer,
  *   listCustomers,
  *   listSubscriptions,
+ *   cancelSubscription,
+ *   resumeSubscription,
+ *   changeSubscriptionPrice,
  * } = surpay.api();
  * ```
  */
 import { actionGeneric, GenericActionCtx } from "convex/server";
-import { Surpay as SurpayClient, ResponseCase } from "@surgent/pay";
+import { Surpay as SurpayClient, SurpayConfig as ClientConfig } from "@surgent/pay";
 import {
   CreateCheckoutArgs,
+  CreatePortalSessionArgs,
   CheckArgs,
+  ListEntitlementsArgs,
   GetCustomerArgs,
   ListCustomersArgs,
   ListSubscriptionsArgs,
   ListProductsArgs,
   GuestCheckoutArgs,
+  CancelSubscriptionArgs,
+  ResumeSubscriptionArgs,
+  ChangeSubscriptionPriceArgs,
 } from "./types.js";
 
 // ============================================================================
@@ -52,16 +62,12 @@ export type IdentifierOpts = {
   customerData?: { name?: string; email?: string };
 };
 
+/**
+ * Client options are the same as `new Surpay()` in `@surgent/pay` (timeout, retries, base URL, fetch, cache,
+ * env var fallbacks such as `SURPAY_API_KEY`), plus `identify`. Invalid options throw from the constructor.
+ */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export type SurpayConfig<Ctx extends GenericActionCtx<any> = GenericActionCtx<any>> = {
-  apiKey: string;
-  baseUrl?: string;
-  /**
-   * Response key case format.
-   * - 'camel' (default): camelCase keys matching TypeScript types
-   * - 'snake': snake_case keys (legacy)
-   */
-  responseCase?: ResponseCase;
+export type SurpayConfig<Ctx extends GenericActionCtx<any> = GenericActionCtx<any>> = ClientConfig & {
   /**
    * Identify the current user from the action context.
    * Return null if unauthenticated (will fail for auth-required actions).
@@ -114,19 +120,35 @@ async function wrapSdkCall<T>(
 // Helpers
 // ============================================================================
 
-function resolveProductId(
-  args: { productId?: string; productSlug?: string },
-  products: Array<{ product: { id: string; slug: string } }>
-): string {
+async function resolveProductId(
+  client: SurpayClient,
+  args: { productId?: string; productSlug?: string }
+): Promise<string> {
   if (args.productId) return args.productId;
   if (args.productSlug) {
-    const found = products.find((p) => p.product.slug === args.productSlug);
-    if (!found) throw new Error(`Product with slug "${args.productSlug}" not found`);
-    return found.product.id;
+    // Throws the SurpayError of a failed lookup (e.g. `not_found`); callers convert it via toPlainError
+    const { data, error } = await client.products.getBySlug(args.productSlug);
+    if (error) throw error;
+    return data.product.id;
   }
   throw new Error("Either productId or productSlug is required");
 }
 
+function pickCheckoutOptions(args: CreateCheckoutArgs) {
+  return {
+    mode: args.mode,
+    cancelUrl: args.cancelUrl,
+    quantity: args.quantity,
+    trialDays: args.trialDays,
+    allowPromotionCodes: args.allowPromotionCodes,
+    promotionCode: args.promotionCode,
+    metadata: args.metadata,
+    currency: args.currency,
+  };
+}
+
+const CONVEX_USER_AGENT = "@surgent/pay-convex";
+
 // ============================================================================
 // Main Class
 // ============================================================================
@@ -138,12 +160,10 @@ export class Surpay<Ctx extends GenericActionCtx<any> = GenericActionCtx<any>> {
 
   constructor(config: SurpayConfig<Ctx>) {
     this.options = config;
-    const g = globalThis as { process?: { env: Record<string, string | undefined> } };
-    const envBaseUrl = g.process?.env.SURPAY_BASE_URL;
+    const { identify: _identify, ...clientConfig } = config;
     this.client = new SurpayClient({
-      apiKey: config.apiKey,
-      baseUrl: config.baseUrl ?? envBaseUrl,
-      responseCase: config.responseCase ?? "camel",
+      ...clientConfig,
+      userAgent: [CONVEX_USER_AGENT, config.userAgent].filter(Boolean).join(" "),
     });
   }
 
@@ -161,6 +181,16 @@ export class Surpay<Ctx extends GenericActionCtx<any> = GenericActionCtx<any>> {
     return opts;
   }
 
+  /** Ensures the subscription belongs to the authenticated user before it is modified. */
+  private async requireOwnedSubscription(ctx: Ctx, subscriptionId: string): Promise<void> {
+    const { customerId } = await this.requireAuth(ctx);
+    const { data: subscription, error } = await this.client.subscriptions.get(subscriptionId);
+    if (error) throw error;
+    if (subscription.customerId !== customerId) {
+      throw new Error(`Subscription "${subscriptionId}" does not belong to the authenticated customer`);
+    }
+  }
+
   api() {
     const client = this.client;
 
@@ -175,19 +205,11 @@ export class Surpay<Ctx extends GenericActionCtx<any> = GenericActionCtx<any>> {
           try {
             const identifierOpts = await this.requireAuth(ctx as Ctx);
 
-            // Resolve productId from slug if needed
-            let productId = args.productId;
-            if (!productId && args.productSlug) {
-              const { data: products, error } = await client.products.listWithPrices();
-              if (error) return { data: null, error: toPlainError(error) };
-              productId = resolveProductId(args, products);
-            }
-            if (!productId) {
-              return { data: null, error: { message: "Either productId or productSlug is required" } };
-            }
+            const productId = await resolveProductId(client, args);
 
             return wrapSdkCall(() =>
               client.checkout.create({
+                ...pickCheckoutOptions(args),
                 productId,
                 priceId: args.priceId,
                 successUrl: args.successUrl,
@@ -211,19 +233,11 @@ export class Surpay<Ctx extends GenericActionCtx<any> = GenericActionCtx<any>> {
         args: GuestCheckoutArgs,
         handler: async (_ctx, args) => {
           try {
-            // Resolve productId from slug if needed
-            let productId = args.productId;
-            if (!productId && args.productSlug) {
-              const { data: products, error } = await client.products.listWithPrices();
-              if (error) return { data: null, error: toPlainError(error) };
-              productId = resolveProductId(args, products);
-            }
-            if (!productId) {
-              return { data: null, error: { message: "Either productId or productSlug is required" } };
-            }
+            const productId = await resolveProductId(client, args);
 
             return wrapSdkCall(() =>
               client.checkout.create({
+                ...pickCheckoutOptions(args),
                 productId,
                 priceId: args.priceId,
                 successUrl: args.successUrl,
@@ -239,7 +253,30 @@ export class Surpay<Ctx extends GenericActionCtx<any> = GenericActionCtx<any>> {
       }),
 
       /**
-       * Check if a user has access to a product.
+       * Create a billing portal session for the authenticated user.
+       * Requires user to be signed in (uses identify() for customerId).
+       */
+      createPortalSession: actionGeneric({
+        args: CreatePortalSessionArgs,
+        handler: async (ctx, args) => {
+          try {
+            const identifierOpts = await this.requireAuth(ctx as Ctx);
+
+            return wrapSdkCall(() =>
+              client.portal.createSession({
+                customerId: identifierOpts.customerId,
+                returnUrl: args.returnUrl,
+              })
+            );
+          } catch (e) {
+            return { data: null, error: toPlainError(e) };
+          }
+        },
+      }),
+
+      /**
+       * Check if a user has access to a product, or to a feature via `featureId`.
+       * Feature checks without a product skip product resolution entirely.
        * Pass `customerId` explicitly for guest flows, or omit it to resolve from identity.
        */
       check: actionGeneric({
@@ -249,21 +286,20 @@ export class Surpay<Ctx extends GenericActionCtx<any> = GenericActionCtx<any>> {
             const customerId =
               args.customerId ?? (await this.requireAuth(ctx as Ctx)).customerId;
 
-            // Resolve productId from slug if needed
-            let productId = args.productId;
-            if (!productId && args.productSlug) {
-              const { data: products, error } = await client.products.listWithPrices();
-              if (error) return { data: null, error: toPlainError(error) };
-              productId = resolveProductId(args, products);
-            }
-            if (!productId) {
-              return { data: null, error: { message: "Either productId or productSlug is required" } };
+            const featureId = args.featureId;
+            if (!args.productId && !args.productSlug) {
+              if (!featureId) throw new Error("One of productId, productSlug or featureId is required");
+              return wrapSdkCall(() => client.check({ featureId, customerId, quantity: args.quantity }));
             }
 
+            const productId = await resolveProductId(client, args);
+
             return wrapSdkCall(() =>
               client.check({
                 productId,
+                featureId,
                 customerId,
+                quantity: args.quantity,
               })
             );
           } catch (e) {
@@ -272,14 +308,31 @@ export class Surpay<Ctx extends GenericActionCtx<any> = GenericActionCtx<any>> {
         },
       }),
 
+      /**
+       * List every feature the authenticated user is entitled to.
+       * Requires user to be signed in (uses identify() for customerId).
+       */
+      listEntitlements: actionGeneric({
+        args: ListEntitlementsArgs,
+        handler: async (ctx) => {
+          try {
+            const { customerId } = await this.requireAuth(ctx as Ctx);
+
+            return wrapSdkCall(() => client.entitlements.list(customerId));
+          } catch (e) {
+            return { data: null, error: toPlainError(e) };
+          }
+        },
+      }),
+
       /**
        * List all products with their prices.
        * Does not require authentication.
        */
       listProducts: actionGeneric({
         args: ListProductsArgs,
-        handler: async () => {
-          return wrapSdkCall(() => client.products.listWithPrices());
+        handler: async (_ctx, args) => {
+          return wrapSdkCall(() => client.products.listWithPrices(args));
         },
       }),
 
@@ -299,8 +352,8 @@ export class Surpay<Ctx extends GenericActionCtx<any> = GenericActionCtx<any>> {
        */
       listCustomers: actionGeneric({
         args: ListCustomersArgs,
-        handler: async () => {
-          return wrapSdkCall(() => client.customers.list());
+        handler: async (_ctx, args) => {
+          return wrapSdkCall(() => client.customers.list(args));
         },
       }),
 
@@ -309,8 +362,64 @@ export class Surpay<Ctx extends GenericActionCtx<any> = GenericActionCtx<any>> {
        */
       listSubscriptions: actionGeneric({
         args: ListSubscriptionsArgs,
-        handler: async () => {
-          return wrapSdkCall(() => client.subscriptions.list());
+        handler: async (_ctx, args) => {
+          return wrapSdkCall(() => client.subscriptions.list(args));
+        },
+      }),
+
+      /**
+       * Cancel a subscription owned by the authenticated user.
+       * Cancels at period end unless `atPeriodEnd: false` is passed.
+       */
+      cancelSubscription: actionGeneric({
+        args: CancelSubscriptionArgs,
+        handler: async (ctx, args) => {
+          try {
+            await this.requireOwnedSubscription(ctx as Ctx, args.subscriptionId);
+
+            return wrapSdkCall(() =>
+              client.subscriptions.cancel(args.subscriptionId, { atPeriodEnd: args.atPeriodEnd })
+            );
+          } catch (e) {
+            return { data: null, error: toPlainError(e) };
+          }
+        },
+      }),
+
+      /**
+       * Resume a subscription owned by the authenticated user that is set to cancel at period end.
+       */
+      resumeSubscription: actionGeneric({
+        args: ResumeSubscriptionArgs,
+        handler: async (ctx, args) => {
+          try {
+            await this.requireOwnedSubscription(ctx as Ctx, args.subscriptionId);
+
+            return wrapSdkCall(() => client.subscriptions.resume(args.subscriptionId));
+          } catch (e) {
+            return { data: null, error: toPlainError(e) };
+          }
+        },
+      }),
+
+      /**
+       * Switch a subscription owned by the authenticated user to another price (e.g. monthly to yearly).
+       */
+      changeSubscriptionPrice: actionGeneric({
+        args: ChangeSubscriptionPriceArgs,
+        handler: async (ctx, args) => {
+          try {
+            await this.requireOwnedSubscription(ctx as Ctx, args.subscriptionId);
+
+            return wrapSdkCall(() =>
+              client.subscriptions.changePrice(args.subscriptionId, {
+                priceId: args.priceId,
+                proration: args.proration,
+              })
+            );
+          } catch (e) {
+            return { data: null, error: toPlainError(e) };
+          }
         },
       }),
     };
@@ -322,7 +431,7 @@ export class Surpay<Ctx extends GenericActionCtx<any> = GenericActionCtx<any>> {
 // ============================================================================
 
 export * from "./types.js";
-export type { ResponseCase } from "@surgent/pay";
+export type { ResponseCase, RetryOptions, CacheOptions } from "@surgent/pay";
 
 // Re-export useful types from base SDK for convenience
 export type {
@@ -334,5 +443,11 @@ export type {
   Subscription,
   SubscriptionStatus,
   CreateCheckoutResponse,
+  CheckoutSession,
+  CheckoutStatus,
+  PortalSession,
   CheckResponse,
+  Entitlement,
+  ProductFeature,
+  Page,
 } from "@surgent/pay";
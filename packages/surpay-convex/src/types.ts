@@ -3,6 +3,24 @@
  */
 import { v, Infer } from "convex/values";
 
+// Cursor pagination shared by list actions
+const paginationArgs = {
+  limit: v.optional(v.number()),
+  startingAfter: v.optional(v.string()),
+};
+
+// Optional checkout settings shared by authenticated and guest checkout
+const checkoutOptionArgs = {
+  mode: v.optional(v.union(v.literal("payment"), v.literal("subscription"), v.literal("setup"))),
+  cancelUrl: v.optional(v.string()),
+  quantity: v.optional(v.number()),
+  trialDays: v.optional(v.number()),
+  allowPromotionCodes: v.optional(v.boolean()),
+  promotionCode: v.optional(v.string()),
+  metadata: v.optional(v.record(v.string(), v.string())),
+  currency: v.optional(v.string()),
+};
+
 // CreateCheckoutArgs: product identifier required (id OR slug), priceId/URLs optional
 // Note: customerId is NOT here - it's injected by the wrapper via identify()
 export const CreateCheckoutArgs = v.object({
@@ -10,20 +28,33 @@ export const CreateCheckoutArgs = v.object({
   productSlug: v.optional(v.string()),
   priceId: v.string(),
   successUrl: v.optional(v.string()),
+  ...checkoutOptionArgs,
 });
 export type CreateCheckoutArgs = Infer<typeof CreateCheckoutArgs>;
 
-// CheckArgs: product identifier required (id OR slug)
+// CreatePortalSessionArgs: customerId is injected by the wrapper via identify()
+export const CreatePortalSessionArgs = v.object({
+  returnUrl: v.optional(v.string()),
+});
+export type CreatePortalSessionArgs = Infer<typeof CreatePortalSessionArgs>;
+
+// CheckArgs: product identifier (id OR slug) and/or featureId required
 // customerId is optional - if provided, used directly (guest flow); otherwise resolved via identify()
 export const CheckArgs = v.object({
   productId: v.optional(v.string()),
   productSlug: v.optional(v.string()),
+  featureId: v.optional(v.string()),
   customerId: v.optional(v.string()),
+  quantity: v.optional(v.number()),
 });
 export type CheckArgs = Infer<typeof CheckArgs>;
 
-// ListSubscriptions: no args required (uses authenticated user's customerId)
-export const ListSubscriptionsArgs = v.object({});
+// ListEntitlements: no args required (uses authenticated user's customerId)
+export const ListEntitlementsArgs = v.object({});
+export type ListEntitlementsArgs = Infer<typeof ListEntitlementsArgs>;
+
+// ListSubscriptions: optional pagination only
+export const ListSubscriptionsArgs = v.object({ ...paginationArgs });
 export type ListSubscriptionsArgs = Infer<typeof ListSubscriptionsArgs>;
 
 // GetCustomer: requires customerId
@@ -32,12 +63,12 @@ export const GetCustomerArgs = v.object({
 });
 export type GetCustomerArgs = Infer<typeof GetCustomerArgs>;
 
-// ListCustomers: no args required (admin operation)
-export const ListCustomersArgs = v.object({});
+// ListCustomers: optional pagination only (admin operation)
+export const ListCustomersArgs = v.object({ ...paginationArgs });
 export type ListCustomersArgs = Infer<typeof ListCustomersArgs>;
 
-// ListProducts: no args required
-export const ListProductsArgs = v.object({});
+// ListProducts: optional pagination only
+export const ListProductsArgs = v.object({ ...paginationArgs });
 export type ListProductsArgs = Infer<typeof ListProductsArgs>;
 
 // GuestCheckoutArgs: for anonymous checkout - requires customerId explicitly
@@ -49,5 +80,25 @@ export const GuestCheckoutArgs = v.object({
   customerId: v.string(),
   customerEmail: v.optional(v.string()),
   customerName: v.optional(v.string()),
+  ...checkoutOptionArgs,
 });
 export type GuestCheckoutArgs = Infer<typeof GuestCheckoutArgs>;
+
+// Subscription lifecycle: operate on a subscription owned by the authenticated user
+export const CancelSubscriptionArgs = v.object({
+  subscriptionId: v.string(),
+  atPeriodEnd: v.optional(v.boolean()),
+});
+export type CancelSubscriptionArgs = Infer<typeof CancelSubscriptionArgs>;
+
+export const ResumeSubscriptionArgs = v.object({
+  subscriptionId: v.string(),
+});
+export type ResumeSubscriptionArgs = Infer<typeof ResumeSubscriptionArgs>;
+
+export const ChangeSubscriptionPriceArgs = v.object({
+  subscriptionId: v.string(),
+  priceId: v.string(),
+  proration: v.optional(v.union(v.literal("create_prorations"), v.literal("always_invoice"), v.literal("none"))),
+});
+export type ChangeSubscriptionPriceArgs = Infer<typeof ChangeSubscriptionPriceArgs>;
@@ -0,0 +1,39 @@
+import { describe, test, expect } from 'bun:test'
+import { ResponseCache, customerTag } from './cache.js'
+
+describe('ResponseCache', () => {
+  test('returns stored values until they expire', async () => {
+    const cache = new ResponseCache({ ttlMs: 20 })
+    cache.set('a', 1)
+    cache.set('b', 2, { ttlMs: 1000 })
+
+    expect(cache.get<number>('a')).toBe(1)
+    await new Promise((resolve) => setTimeout(resolve, 30))
+    expect(cache.get('a')).toBeUndefined()
+    expect(cache.get<number>('b')).toBe(2)
+  })
+
+  test('evicts the least recently used entry beyond maxSize', () => {
+    const cache = new ResponseCache({ maxSize: 2 })
+    cache.set('a', 1)
+    cache.set('b', 2)
+    cache.get('a')
+    cache.set('c', 3)
+
+    expect(cache.get<number>('a')).toBe(1)
+    expect(cache.get('b')).toBeUndefined()
+    expect(cache.get<number>('c')).toBe(3)
+    expect(cache.size).toBe(2)
+  })
+
+  test('invalidates entries by tag', () => {
+    const cache = new ResponseCache()
+    cache.set('check:1', true, { tags: [customerTag('cus_1')] })
+    cache.set('check:2', true, { tags: [customerTag('cus_2')] })
+
+    cache.invalidateTags([customerTag('cus_1')])
+
+    expect(cache.get('check:1')).toBeUndefined()
+    expect(cache.get<boolean>('check:2')).toBe(true)
+  })
+})
@@ -0,0 +1,80 @@
+/**
+ * In-memory response cache with per-entry TTL, LRU eviction and tag-based invalidation.
+ *
+ * Used by `Surpay` to cache `check()`, `products.listWithPrices()` and product lookups when the
+ * `cache` option is enabled. Entries are tagged (e.g. `customer:cus_123`) so every entry
+ * involving a customer can be dropped at once after a mutation.
+ */
+
+import type { CacheOptions } from './types.js'
+
+const DEFAULT_TTL_MS = 60_000
+const DEFAULT_MAX_SIZE = 1000
+
+interface CacheEntry {
+  value: unknown
+  expiresAt: number
+  tags: string[]
+}
+
+export const customerTag = (customerId: string) => `customer:${customerId}`
+
+export class ResponseCache {
+  readonly ttlMs: number
+  readonly productsTtlMs: number
+  private readonly maxSize: number
+  // Map iteration order is insertion order, so the first key is always the least recently used
+  private readonly entries = new Map<string, CacheEntry>()
+
+  constructor(options: CacheOptions = {}) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS
+    this.productsTtlMs = options.productsTtlMs ?? this.ttlMs
+    this.maxSize = Math.max(1, options.maxSize ?? DEFAULT_MAX_SIZE)
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  get<T>(key: string): T | undefined {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return undefined
+    }
+
+    // Re-insert to mark as most recently used
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry.value as T
+  }
+
+  set(key: string, value: unknown, { ttlMs = this.ttlMs, tags = [] }: { ttlMs?: number; tags?: string[] } = {}): void {
+    this.entries.delete(key)
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs, tags })
+
+    while (this.entries.size > this.maxSize) {
+      const oldest = this.entries.keys().next().value
+      if (oldest === undefined) break
+      this.entries.delete(oldest)
+    }
+  }
+
+  /** Drops every entry carrying any of the given tags. */
+  invalidateTags(tags: Iterable<string>): void {
+    const dropped = new Set(tags)
+    if (dropped.size === 0) return
+
+    for (const [key, entry] of this.entries) {
+      if (entry.tags.some((tag) => dropped.has(tag))) {
+        this.entries.delete(key)
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear()
+  }
+}
@@ -0,0 +1,212 @@
+import { describe, test, expect } from 'bun:test'
+import type { SurpayValidationError } from './errors.js'
+import { MockSurpay } from './testing/index.js'
+import type { CatalogDefinition } from './types.js'
+
+const CATALOG: CatalogDefinition = {
+  products: {
+    pro: {
+      name: 'Pro',
+      features: [{ id: 'api_calls', limit: 1000, resetInterval: 'month' }],
+      prices: {
+        'pro-monthly': { amount: 2000, currency: 'USD', interval: 'month', isDefault: true },
+        'pro-yearly': { amount: 20000, currency: 'USD', interval: 'year' },
+      },
+    },
+    lifetime: {
+      productGroup: 'lifetime-deal',
+      name: 'Lifetime',
+      prices: { lifetime: { amount: 50000, currency: 'USD' } },
+    },
+  },
+}
+
+const setup = () => {
+  const mock = new MockSurpay()
+  return { mock, surpay: mock.client({ strict: true, retry: { maxAttempts: 1 } }) }
+}
+
+const summaries = (changes: Array<{ status: string; summary: string }>) =>
+  changes.map(({ status, summary }) => `${status}: ${summary}`)
+
+describe('catalog.sync', () => {
+  test('dry run plans every change without applying it', async () => {
+    const { surpay } = setup()
+
+    const { data, error } = await surpay.catalog.sync(CATALOG, { dryRun: true })
+
+    expect(error).toBeNull()
+    expect(data?.dryRun).toBe(true)
+    expect(summaries(data!.changes)).toEqual([
+      'pending: Create product pro (Pro)',
+      'pending: Create product lifetime (Lifetime)',
+      'pending: Create price pro-monthly (2000 USD/month) of product pro',
+      'pending: Create price pro-yearly (20000 USD/year) of product pro',
+      'pending: Create price lifetime (50000 USD) of product lifetime',
+    ])
+    expect((await surpay.products.listWithPrices()).data?.data).toEqual([])
+  })
+
+  test('creates the catalog, then has nothing left to do', async () => {
+    const { surpay } = setup()
+
+    const { data } = await surpay.catalog.sync(CATALOG)
+    const again = await surpay.catalog.sync(CATALOG)
+
+    expect(data?.changes.every(({ status }) => status === 'applied')).toBe(true)
+    const { data: products } = await surpay.products.listWithPrices()
+    expect(products?.data.map(({ product, prices }) => [product.slug, product.productGroup, prices.length])).toEqual([
+      ['pro', 'pro', 2],
+      ['lifetime', 'lifetime-deal', 1],
+    ])
+    expect(again.data?.changes).toEqual([])
+  })
+
+  test('updates changed products and adds new prices', async () => {
+    const { surpay } = setup()
+    await surpay.catalog.sync(CATALOG)
+
+    const { data } = await surpay.catalog.sync({
+      products: {
+        ...CATALOG.products,
+        pro: {
+          ...CATALOG.products.pro!,
+          name: 'Pro Plus',
+          features: [{ id: 'api_calls', limit: 5000, resetInterval: 'month' }],
+          prices: { ...CATALOG.products.pro!.prices, 'pro-weekly': { amount: 600, currency: 'USD', interval: 'week' } },
+        },
+      },
+    })
+
+    expect(summaries(data!.changes)).toEqual([
+      'applied: Update product pro: name, features',
+      'applied: Create price pro-weekly (600 USD/week) of product pro',
+    ])
+    const { data: products } = await surpay.products.listWithPrices()
+    expect(products?.data[0]?.product).toMatchObject({ name: 'Pro Plus', features: [{ limit: 5000 }] })
+  })
+
+  test('archives products missing from the definition only when asked', async () => {
+    const { surpay } = setup()
+    await surpay.catalog.sync(CATALOG)
+    const withoutLifetime = { products: { pro: CATALOG.products.pro! } }
+
+    const kept = await surpay.catalog.sync(withoutLifetime)
+    const archived = await surpay.catalog.sync(withoutLifetime, { archiveMissing: true })
+
+    expect(kept.data?.changes).toEqual([])
+    expect(summaries(archived.data!.changes)).toEqual(['applied: Archive product lifetime (Lifetime)'])
+    expect((await surpay.catalog.sync(CATALOG)).data?.changes[0]?.summary).toBe(
+      'Update product lifetime: isArchived'
+    )
+  })
+
+  test('updates the names and default flag of existing prices', async () => {
+    const { surpay } = setup()
+    await surpay.catalog.sync(CATALOG)
+    const prices = CATALOG.products.pro!.prices!
+
+    const { data } = await surpay.catalog.sync({
+      products: {
+        pro: {
+          ...CATALOG.products.pro!,
+          prices: {
+            'pro-monthly': { ...prices['pro-monthly']!, isDefault: false },
+            'pro-yearly': { ...prices['pro-yearly']!, name: 'Yearly', isDefault: true },
+          },
+        },
+      },
+    })
+
+    expect(summaries(data!.changes)).toEqual([
+      'applied: Update price pro-monthly of product pro: isDefault',
+      'applied: Update price pro-yearly of product pro: name, isDefault',
+    ])
+    const { data: pro } = await surpay.products.get('pro')
+    expect(pro?.prices.map(({ slug, name, isDefault }) => [slug, name, isDefault])).toEqual([
+      ['pro-monthly', null, false],
+      ['pro-yearly', 'Yearly', true],
+    ])
+  })
+
+  test('archives prices missing from the definition only when asked', async () => {
+    const { surpay } = setup()
+    await surpay.catalog.sync(CATALOG)
+    const monthlyOnly = {
+      products: {
+        ...CATALOG.products,
+        pro: { ...CATALOG.products.pro!, prices: { 'pro-monthly': CATALOG.products.pro!.prices!['pro-monthly']! } },
+      },
+    }
+
+    const kept = await surpay.catalog.sync(monthlyOnly)
+    const archived = await surpay.catalog.sync(monthlyOnly, { archiveMissing: true })
+    const restored = await surpay.catalog.sync(CATALOG)
+
+    expect(kept.data?.changes).toEqual([])
+    expect(summaries(archived.data!.changes)).toEqual(['applied: Archive price pro-yearly of product pro'])
+    expect(restored.data?.changes[0]).toMatchObject({ price: 'pro-yearly', fields: ['isArchived'], status: 'failed' })
+  })
+
+  test('reports price changes it cannot apply', async () => {
+    const { surpay } = setup()
+    await surpay.catalog.sync(CATALOG)
+
+    const { data } = await surpay.catalog.sync({
+      products: {
+        lifetime: {
+          ...CATALOG.products.lifetime!,
+          prices: { lifetime: { amount: 45000, currency: 'USD', name: 'Lifetime', currencyOptions: { EUR: 40000 } } },
+        },
+      },
+    })
+
+    expect(data?.changes).toHaveLength(1)
+    expect(data?.changes[0]).toMatchObject({
+      action: 'update_price',
+      fields: ['amount', 'currencyOptions'],
+      status: 'failed',
+    })
+    expect(data?.changes[0]?.error?.code).toBe('unsupported_change')
+  })
+
+  test('reports per-item errors and skips prices of products that failed', async () => {
+    const { mock, surpay } = setup()
+    mock.injectError({ method: 'POST', path: '/product', status: 500, message: 'boom' })
+
+    const { data, error } = await surpay.catalog.sync(CATALOG)
+
+    expect(error).toBeNull()
+    expect(data?.changes.map(({ product, price, status }) => [product, price ?? null, status])).toEqual([
+      ['pro', null, 'failed'],
+      ['lifetime', null, 'applied'],
+      ['pro', 'pro-monthly', 'skipped'],
+      ['pro', 'pro-yearly', 'skipped'],
+      ['lifetime', 'lifetime', 'applied'],
+    ])
+    expect(data?.changes[0]?.error?.message).toBe('boom')
+  })
+
+  test('rejects malformed definitions without listing the catalog', async () => {
+    const { mock, surpay } = setup()
+
+    const empty = await surpay.catalog.sync({} as CatalogDefinition)
+    const badProduct = await surpay.catalog.sync({ products: { pro: { prices: [] } } } as unknown as CatalogDefinition)
+
+    expect(empty.error?.code).toBe('validation_error')
+    expect(empty.error?.message).toBe('Invalid catalog definition: products must be an object keyed by product slug')
+    const { fieldErrors } = badProduct.error as SurpayValidationError
+    expect(fieldErrors.map(({ field }) => field)).toEqual(['products.pro.name', 'products.pro.prices'])
+    expect(mock.requests).toHaveLength(0)
+  })
+
+  test('fails as a whole when the catalog cannot be listed', async () => {
+    const { mock, surpay } = setup()
+    mock.injectError({ path: '/products', status: 503 })
+
+    const { data, error } = await surpay.catalog.sync(CATALOG)
+
+    expect(data).toBeNull()
+    expect(error?.code).toBe('service_unavailable')
+  })
+})
@@ -0,0 +1,384 @@
+/**
+ * Declarative catalog sync.
+ *
+ * Diffs a `CatalogDefinition` against the products and prices returned by the API, and turns the
+ * differences into an ordered list of changes: product creates, updates and archives first, then the
+ * price changes that may depend on them. Each change is applied on its own, so one failure is reported
+ * on that change instead of aborting the whole sync.
+ */
+
+import { SurpayError, type FieldError } from './errors.js'
+import { validationFailure } from './utils/result.js'
+import type {
+  CatalogChange,
+  CatalogDefinition,
+  CatalogPriceDefinition,
+  CatalogProductDefinition,
+  CatalogSyncResult,
+  CreatePriceRequest,
+  CreateProductRequest,
+  Page,
+  PaginationParams,
+  ProductFeature,
+  ProductPrice,
+  ProductWithPrices,
+  Result,
+  SyncCatalogOptions,
+  UpdatePriceRequest,
+  UpdateProductRequest,
+} from './types.js'
+
+/** The API calls a sync needs, bound by `Surpay` to its own methods. */
+export interface CatalogApi {
+  listProducts: (params: PaginationParams) => Promise<Result<Page<ProductWithPrices>, SurpayError>>
+  createProduct: (params: CreateProductRequest) => Promise<Result<unknown, SurpayError>>
+  updateProduct: (productId: string, params: UpdateProductRequest) => Promise<Result<unknown, SurpayError>>
+  createPrice: (params: CreatePriceRequest) => Promise<Result<unknown, SurpayError>>
+  updatePrice: (priceId: string, params: UpdatePriceRequest) => Promise<Result<unknown, SurpayError>>
+  archivePrice: (priceId: string) => Promise<Result<unknown, SurpayError>>
+}
+
+interface PlannedChange {
+  change: CatalogChange
+  /** Missing for changes that cannot be applied, which are planned as `failed` */
+  apply?: () => Promise<Result<unknown, SurpayError>>
+  /** Change that must be applied first, e.g. the product a new price belongs to */
+  dependsOn?: CatalogChange
+}
+
+const PAGE_SIZE = 100
+
+const unsupportedChange = (message: string) => new SurpayError({ message, code: 'unsupported_change', statusCode: 0 })
+
+const normalizeFeatures = (features: ProductFeature[] | null | undefined): string =>
+  JSON.stringify(
+    (features ?? []).map(({ id, name, limit, resetInterval }) =>
+      [id, name, limit, resetInterval].map((value) => value ?? null)
+    )
+  )
+
+/** Sorted so that key order does not count as a difference */
+const normalizeCurrencyOptions = (options: Record<string, number> | null | undefined): string =>
+  JSON.stringify(Object.entries(options ?? {}).sort(([a], [b]) => a.localeCompare(b)))
+
+const describePrice = (price: CatalogPriceDefinition) =>
+  `${price.amount} ${price.currency}${price.interval ? `/${price.interval}` : ''}`
+
+/** Names of the fields of `desired` that are set and differ from `actual`. */
+const changedFields = <T extends object>(desired: Partial<T>, actual: T, fields: Array<keyof T & string>): string[] =>
+  fields.filter((field) => desired[field] !== undefined && desired[field] !== (actual[field] ?? undefined))
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+/**
+ * Checks the shape the planner relies on, since definitions are often parsed from JSON files.
+ * Values inside the products and prices are left to the API's request validation.
+ */
+const definitionErrors = (definition: unknown): FieldError[] => {
+  if (!isRecord(definition) || !isRecord(definition.products)) {
+    return [{ field: 'products', message: 'must be an object keyed by product slug' }]
+  }
+  return Object.entries(definition.products).flatMap(([slug, product]): FieldError[] => {
+    if (!isRecord(product)) return [{ field: `products.${slug}`, message: 'must be an object' }]
+    const errors: FieldError[] = []
+    if (typeof product.name !== 'string') errors.push({ field: `products.${slug}.name`, message: 'is required' })
+    if (product.prices !== undefined && !isRecord(product.prices)) {
+      errors.push({ field: `products.${slug}.prices`, message: 'must be an object keyed by price slug' })
+    }
+    for (const [priceSlug, price] of Object.entries(isRecord(product.prices) ? product.prices : {})) {
+      if (!isRecord(price)) errors.push({ field: `products.${slug}.prices.${priceSlug}`, message: 'must be an object' })
+    }
+    return errors
+  })
+}
+
+const listAllProducts = async (api: CatalogApi): Promise<Result<ProductWithPrices[], SurpayError>> => {
+  const products: ProductWithPrices[] = []
+  let startingAfter: string | undefined
+  while (true) {
+    const result = await api.listProducts({ limit: PAGE_SIZE, startingAfter })
+    if (result.error) return result
+    products.push(...result.data.data)
+    if (!result.data.hasMore || !result.data.nextCursor) {
+      return { data: products, error: null, statusCode: result.statusCode }
+    }
+    startingAfter = result.data.nextCursor
+  }
+}
+
+/** Existing products by slug, preferring the active one when archived versions share its slug. */
+const indexBySlug = (products: ProductWithPrices[]): Map<string, ProductWithPrices> => {
+  const bySlug = new Map<string, ProductWithPrices>()
+  for (const entry of products) {
+    const current = bySlug.get(entry.product.slug)
+    if (!current || current.product.isArchived || !entry.product.isArchived) {
+      bySlug.set(entry.product.slug, entry)
+    }
+  }
+  return bySlug
+}
+
+/**
+ * Finds the existing price for a definition: by slug, or for active prices created without one,
+ * by amount, currency and interval.
+ */
+const matchPrice = (
+  slug: string,
+  desired: CatalogPriceDefinition,
+  prices: ProductPrice[],
+  matched: Set<ProductPrice>
+): ProductPrice | undefined =>
+  prices.find((price) => price.slug === slug) ??
+  prices.find(
+    (price) =>
+      !price.slug &&
+      !price.isArchived &&
+      !matched.has(price) &&
+      price.priceAmount === desired.amount &&
+      price.priceCurrency === desired.currency &&
+      (price.recurringInterval ?? undefined) === desired.interval
+  )
+
+const planProduct = (
+  slug: string,
+  desired: CatalogProductDefinition,
+  existing: ProductWithPrices | undefined,
+  options: SyncCatalogOptions,
+  api: CatalogApi
+): PlannedChange[] => {
+  const planned: PlannedChange[] = []
+  const productGroup = desired.productGroup ?? slug
+  let created: CatalogChange | undefined
+
+  if (!existing) {
+    created = {
+      action: 'create_product',
+      product: slug,
+      summary: `Create product ${slug} (${desired.name})`,
+      status: 'pending',
+      error: null,
+    }
+    planned.push({
+      change: created,
+      apply: () =>
+        api.createProduct({
+          productGroup,
+          name: desired.name,
+          slug,
+          description: desired.description,
+          isDefault: desired.isDefault,
+          features: desired.features,
+        }),
+    })
+  } else {
+    const { product } = existing
+    const fields = changedFields(desired, product, ['name', 'description', 'isDefault'])
+    const featuresChanged =
+      desired.features !== undefined && normalizeFeatures(desired.features) !== normalizeFeatures(product.features)
+    if (featuresChanged) fields.push('features')
+    if (product.isArchived) fields.push('isArchived')
+
+    if (fields.length > 0) {
+      planned.push({
+        change: {
+          action: 'update_product',
+          product: slug,
+          fields,
+          summary: `Update product ${slug}: ${fields.join(', ')}`,
+          status: 'pending',
+          error: null,
+        },
+        apply: () =>
+          api.updateProduct(product.id, {
+            name: desired.name,
+            description: desired.description,
+            isDefault: desired.isDefault,
+            features: featuresChanged ? desired.features : undefined,
+            isArchived: product.isArchived ? false : undefined,
+          }),
+      })
+    }
+    if (product.productGroup !== productGroup) {
+      planned.push({
+        change: {
+          action: 'update_product',
+          product: slug,
+          fields: ['productGroup'],
+          summary: `Move product ${slug} from group ${product.productGroup} to ${productGroup}`,
+          status: 'failed',
+          error: unsupportedChange(`The productGroup of existing product ${slug} cannot be changed`),
+        },
+      })
+    }
+  }
+
+  // Prices attach to the latest product of a group, so existing products keep their current group
+  const priceGroup = existing?.product.productGroup ?? productGroup
+  const matched = new Set<ProductPrice>()
+  for (const [priceSlug, price] of Object.entries(desired.prices ?? {})) {
+    const current = existing && matchPrice(priceSlug, price, existing.prices, matched)
+    if (!current) {
+      planned.push({
+        change: {
+          action: 'create_price',
+          product: slug,
+          price: priceSlug,
+          summary: `Create price ${priceSlug} (${describePrice(price)}) of product ${slug}`,
+          status: 'pending',
+          error: null,
+        },
+        dependsOn: created,
+        apply: () =>
+          api.createPrice({
+            productGroup: priceGroup,
+            price: price.amount,
+            priceCurrency: price.currency,
+            recurringInterval: price.interval,
+            name: price.name,
+            description: price.description,
+            isDefault: price.isDefault,
+            slug: priceSlug,
+            currencyOptions: price.currencyOptions,
+          }),
+      })
+      continue
+    }
+
+    matched.add(current)
+    // Amounts, currencies and intervals are fixed once a price exists, and archived prices stay archived
+    const fixedFields = [
+      ...(current.priceAmount !== price.amount ? ['amount'] : []),
+      ...(current.priceCurrency !== price.currency ? ['currency'] : []),
+      ...((current.recurringInterval ?? undefined) !== price.interval ? ['interval'] : []),
+      ...(price.currencyOptions !== undefined &&
+      normalizeCurrencyOptions(price.currencyOptions) !== normalizeCurrencyOptions(current.currencyOptions)
+        ? ['currencyOptions']
+        : []),
+      ...(current.isArchived ? ['isArchived'] : []),
+    ]
+    if (fixedFields.length > 0) {
+      planned.push({
+        change: {
+          action: 'update_price',
+          product: slug,
+          price: priceSlug,
+          fields: fixedFields,
+          summary: `Update price ${priceSlug} of product ${slug}: ${fixedFields.join(', ')}`,
+          status: 'failed',
+          error: unsupportedChange(
+            `The ${fixedFields.join(', ')} of price ${priceSlug} of product ${slug} cannot be changed; ` +
+              'create a price with a new slug instead'
+          ),
+        },
+      })
+      continue
+    }
+
+    const fields = changedFields(price, current, ['name', 'description', 'isDefault'])
+    if (fields.length > 0) {
+      planned.push({
+        change: {
+          action: 'update_price',
+          product: slug,
+          price: priceSlug,
+          fields,
+          summary: `Update price ${priceSlug} of product ${slug}: ${fields.join(', ')}`,
+          status: 'pending',
+          error: null,
+        },
+        apply: () =>
+          api.updatePrice(current.id, { name: price.name, description: price.description, isDefault: price.isDefault }),
+      })
+    }
+  }
+
+  if (existing && options.archiveMissing) {
+    for (const price of existing.prices) {
+      if (price.isArchived || matched.has(price)) continue
+      const priceSlug = price.slug ?? price.id
+      planned.push({
+        change: {
+          action: 'archive_price',
+          product: slug,
+          price: priceSlug,
+          summary: `Archive price ${priceSlug} of product ${slug}`,
+          status: 'pending',
+          error: null,
+        },
+        apply: () => api.archivePrice(price.id),
+      })
+    }
+  }
+
+  return planned
+}
+
+const plan = (
+  definition: CatalogDefinition,
+  products: ProductWithPrices[],
+  options: SyncCatalogOptions,
+  api: CatalogApi
+): PlannedChange[] => {
+  const existing = indexBySlug(products)
+  const planned = Object.entries(definition.products).flatMap(([slug, product]) =>
+    planProduct(slug, product, existing.get(slug), options, api)
+  )
+
+  if (options.archiveMissing) {
+    for (const { product } of existing.values()) {
+      if (product.isArchived || Object.hasOwn(definition.products, product.slug)) continue
+      planned.push({
+        change: {
+          action: 'archive_product',
+          product: product.slug,
+          summary: `Archive product ${product.slug} (${product.name})`,
+          status: 'pending',
+          error: null,
+        },
+        apply: () => api.updateProduct(product.id, { isArchived: true }),
+      })
+    }
+  }
+
+  // Product changes before price changes, since new prices may belong to new products
+  const isPriceChange = ({ change }: PlannedChange) => change.action.endsWith('_price')
+  return [...planned.filter((entry) => !isPriceChange(entry)), ...planned.filter(isPriceChange)]
+}
+
+/**
+ * Brings the catalog in line with `definition`, or only plans the changes when `dryRun` is set.
+ * Fails as a whole only when the definition is malformed (`validation_error`) or the existing catalog cannot be listed.
+ */
+export const syncCatalog = async (
+  definition: CatalogDefinition,
+  options: SyncCatalogOptions,
+  api: CatalogApi
+): Promise<Result<CatalogSyncResult, SurpayError>> => {
+  const errors = definitionErrors(definition)
+  if (errors.length > 0) {
+    const summary = errors.map(({ field, message }) => `${field} ${message}`).join('; ')
+    return validationFailure(`Invalid catalog definition: ${summary}`, errors)
+  }
+
+  const existing = await listAllProducts(api)
+  if (existing.error) return existing
+
+  const planned = plan(definition, existing.data, options, api)
+  const dryRun = options.dryRun ?? false
+  if (!dryRun) {
+    for (const { change, apply, dependsOn } of planned) {
+      if (!apply) continue
+      if (dependsOn && dependsOn.status !== 'applied') {
+        change.status = 'skipped'
+        continue
+      }
+      const result = await apply()
+      change.status = result.error ? 'failed' : 'applied'
+      change.error = result.error
+    }
+  }
+
+  const changes = planned.map(({ change }) => change)
+  return { data: { dryRun, changes }, error: null, statusCode: existing.statusCode }
+}
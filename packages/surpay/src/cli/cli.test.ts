@@ -0,0 +1,229 @@
+import { describe, test, expect, afterEach } from 'bun:test'
+import { mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { MockSurpay } from '../testing/index.js'
+import { runCli } from './cli.js'
+import { formatAmount, formatTable } from './format.js'
+
+const originalApiKey = process.env.SURPAY_API_KEY
+
+afterEach(() => {
+  if (originalApiKey === undefined) delete process.env.SURPAY_API_KEY
+  else process.env.SURPAY_API_KEY = originalApiKey
+})
+
+/** Runs the CLI against a fresh mock, capturing output. */
+const createCli = () => {
+  const mock = new MockSurpay()
+  const run = async (...argv: string[]) => {
+    let stdout = ''
+    let stderr = ''
+    const code = await runCli(argv, {
+      config: { apiKey: 'test_key', fetch: mock.fetch, retry: { maxAttempts: 1 } },
+      stdout: (text) => (stdout += text),
+      stderr: (text) => (stderr += text),
+    })
+    return { code, stdout, stderr }
+  }
+  return { mock, run }
+}
+
+describe('surpay CLI', () => {
+  test('creates products and prices and lists them as a table', async () => {
+    const { run } = createCli()
+
+    const created = await run('products', 'create', '--group', 'pro', '--name', 'Pro', '--slug', 'pro')
+    await run('prices', 'create', '--group', 'pro', '--amount', '2000', '--currency', 'USD', '--interval', 'month')
+    const listed = await run('products', 'list')
+
+    expect(created).toMatchObject({ code: 0, stderr: '' })
+    expect(created.stdout).toContain('productId     prod_1')
+    expect(listed.stdout).toBe(
+      'ID      NAME  SLUG  GROUP  STATUS  PRICES\nprod_1  Pro   pro   pro    active  price_2 $20.00/month\n'
+    )
+  })
+
+  test('passes features and archives products', async () => {
+    const { run } = createCli()
+    await run('products', 'create', '--group', 'pro', '--name', 'Pro', '--slug', 'pro', '--feature', 'api:100:month')
+
+    await run('products', 'archive', 'prod_1')
+    const { stdout } = await run('products', 'list', '--json')
+
+    expect(JSON.parse(stdout).data[0].product).toMatchObject({
+      isArchived: true,
+      features: [{ id: 'api', limit: 100, resetInterval: 'month' }],
+    })
+  })
+
+  test('updates and archives prices and lists their currencies', async () => {
+    const { run } = createCli()
+    await run('products', 'create', '--group', 'pro', '--name', 'Pro', '--slug', 'pro')
+    const args = ['--group', 'pro', '--amount', '2000', '--currency', 'USD', '--interval', 'month']
+    await run('prices', 'create', ...args, '--currency-option', 'EUR:1800')
+    await run('prices', 'create', '--group', 'pro', '--amount', '20000', '--currency', 'USD', '--interval', 'year')
+
+    const updated = await run('prices', 'update', 'price_2', '--name', 'Monthly', '--default')
+    await run('prices', 'archive', 'price_3')
+    const { stdout } = await run('products', 'list')
+
+    expect(updated.stdout).toContain('name               Monthly')
+    expect(stdout).toContain('price_2 $20.00 or €18.00/month (default), price_3 $200.00/year (archived)')
+  })
+
+  test('rejects currency options without an amount', async () => {
+    const { run } = createCli()
+
+    const args = ['--group', 'pro', '--amount', '2000', '--currency', 'USD', '--currency-option', 'EUR']
+    const { code, stderr } = await run('prices', 'create', ...args)
+
+    expect(code).toBe(1)
+    expect(stderr).toContain('currencyOptions.EUR must be a positive integer in minor units')
+  })
+
+  test('prints JSON with --json', async () => {
+    const { run } = createCli()
+    await run('products', 'create', '--group', 'pro', '--name', 'Pro', '--slug', 'pro')
+    await run('prices', 'create', '--group', 'pro', '--amount', '500', '--currency', 'USD')
+
+    const { code, stdout } = await run('checkout', 'create', '--product', 'prod_1', '--json')
+
+    expect(code).toBe(0)
+    expect(JSON.parse(stdout)).toMatchObject({ status: 'open', productId: 'prod_1', priceId: 'price_2' })
+  })
+
+  test('shows a customer with subscriptions and transactions', async () => {
+    const { mock, run } = createCli()
+    await run('products', 'create', '--group', 'pro', '--name', 'Pro', '--slug', 'pro')
+    await run('prices', 'create', '--group', 'pro', '--amount', '2000', '--currency', 'USD', '--interval', 'month')
+    await run('checkout', 'create', '--product', 'prod_1', '--email', 'ada@example.com')
+    const { customer } = mock.completeCheckout('cs_3')
+
+    const { stdout } = await run('customers', 'get', customer.id)
+
+    expect(stdout).toContain('email                ada@example.com')
+    expect(stdout).toMatch(/Subscriptions\nID +STATUS +PERIOD END\nsub_\d+ +active/)
+    expect(stdout).toMatch(/Transactions\nID +TYPE +AMOUNT +CREATED\ntxn_\d+ +payment +\$20\.00/)
+  })
+
+  test('points at the next page', async () => {
+    const { run } = createCli()
+    await run('products', 'create', '--group', 'a', '--name', 'A', '--slug', 'a')
+    await run('products', 'create', '--group', 'b', '--name', 'B', '--slug', 'b')
+
+    const { stdout } = await run('products', 'list', '--limit', '1')
+
+    expect(stdout).toEndWith('More results: --starting-after prod_1\n')
+  })
+
+  test('syncs the catalog from a JSON file', async () => {
+    const { run } = createCli()
+    const file = join(mkdtempSync(join(tmpdir(), 'surpay-cli-')), 'catalog.json')
+    const catalog = { products: { pro: { name: 'Pro', prices: { monthly: { amount: 2000, currency: 'USD' } } } } }
+    writeFileSync(file, JSON.stringify(catalog))
+
+    const dryRun = await run('catalog', 'sync', '--file', file, '--dry-run')
+    const applied = await run('catalog', 'sync', '--file', file)
+    const again = await run('catalog', 'sync', '--file', file)
+
+    expect(dryRun.stdout).toContain('pending  Create product pro (Pro)')
+    expect(dryRun.stdout).toEndWith('Dry run: nothing was changed\n')
+    expect(applied).toMatchObject({ code: 0 })
+    expect(applied.stdout).toContain('applied  Create price monthly (2000 USD) of product pro')
+    expect(again.stdout).toBe('Catalog is up to date\n')
+  })
+
+  test('includes the error message of failed changes in --json output', async () => {
+    const { mock, run } = createCli()
+    const file = join(mkdtempSync(join(tmpdir(), 'surpay-cli-')), 'catalog.json')
+    writeFileSync(file, JSON.stringify({ products: { pro: { name: 'Pro' } } }))
+    mock.injectError({ method: 'POST', path: '/product', status: 500, message: 'boom' })
+
+    const { code, stdout } = await run('catalog', 'sync', '--file', file, '--json')
+
+    expect(code).toBe(1)
+    expect(JSON.parse(stdout).changes[0]).toMatchObject({
+      status: 'failed',
+      error: { name: 'SurpayError', message: 'boom', statusCode: 500 },
+    })
+  })
+
+  test('rejects catalog files without products as a usage error', async () => {
+    const { run } = createCli()
+    const file = join(mkdtempSync(join(tmpdir(), 'surpay-cli-')), 'catalog.json')
+    writeFileSync(file, JSON.stringify([{ name: 'Pro' }]))
+
+    const { code, stderr } = await run('catalog', 'sync', '--file', file)
+
+    expect(code).toBe(2)
+    expect(stderr).toContain('must contain a "products" object keyed by product slug')
+  })
+
+  test('reports API errors with exit code 1', async () => {
+    const { run } = createCli()
+
+    const { code, stderr } = await run('customers', 'get', 'cus_missing')
+
+    expect(code).toBe(1)
+    expect(stderr).toContain('Error: Customer cus_missing not found (not_found)')
+  })
+
+  test('reports usage errors with exit code 2', async () => {
+    const { run } = createCli()
+
+    const missing = await run('products', 'create', '--name', 'Pro')
+    const unknown = await run('products', 'list', '--bogus')
+    const command = await run('products', 'delete')
+
+    expect(missing).toMatchObject({ code: 2 })
+    expect(missing.stderr).toContain('Missing required option --group')
+    expect(missing.stderr).toContain('surpay products create --group <productGroup>')
+    expect(unknown.code).toBe(2)
+    expect(command.stderr).toStartWith('Unknown command: products delete')
+  })
+
+  test('prints help', async () => {
+    const { run } = createCli()
+
+    const { code, stdout } = await run('--help')
+
+    expect(code).toBe(0)
+    expect(stdout).toContain('subscriptions list')
+    expect(stdout).toContain('SURPAY_API_KEY')
+  })
+
+  test('reads the API key from the environment like the constructor', async () => {
+    delete process.env.SURPAY_API_KEY
+    let stderr = ''
+
+    const code = await runCli(['customers', 'list'], { stderr: (text) => (stderr += text) })
+
+    expect(code).toBe(1)
+    expect(stderr).toContain('apiKey is required')
+    expect(stderr).toContain('SURPAY_API_KEY')
+  })
+})
+
+describe('format', () => {
+  test('formatTable pads columns and shows missing values as -', () => {
+    const table = formatTable(
+      [
+        { id: 'a', email: null },
+        { id: 'long_id', email: 'x@example.com' },
+      ],
+      [
+        ['id', (row) => row.id],
+        ['email', (row) => row.email],
+      ]
+    )
+
+    expect(table).toBe('ID       EMAIL\na        -\nlong_id  x@example.com')
+  })
+
+  test('formatAmount uses the currency decimals', () => {
+    expect(formatAmount(2000, 'USD')).toBe('$20.00')
+    expect(formatAmount(500, 'JPY')).toBe('¥500')
+    expect(formatAmount(100, 'XXXX')).toBe('100 XXXX')
+  })
+})
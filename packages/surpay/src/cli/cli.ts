@@ -0,0 +1,493 @@
+/**
+ * The `surpay` command-line tool.
+ *
+ * A thin layer over the `Surpay` client: each subcommand maps its flags onto one SDK call and prints the
+ * result as a table, or as JSON with `--json`. The API key and base URL come from `SURPAY_API_KEY` and
+ * `SURPAY_BASE_URL`, resolved by the `Surpay` constructor exactly as in application code.
+ */
+
+import { readFile } from 'node:fs/promises'
+import { parseArgs, type ParseArgsConfig } from 'node:util'
+import { isSurpayError, type SurpayError } from '../errors.js'
+import { Surpay } from '../surpay.js'
+import type {
+  CatalogDefinition,
+  CatalogSyncResult,
+  CheckoutSession,
+  Customer,
+  CustomerWithDetails,
+  Page,
+  ProductFeature,
+  ProductWithPrices,
+  RecurringInterval,
+  Result,
+  Subscription,
+  SubscriptionStatus,
+  SurpayConfig,
+  Transaction,
+  TransactionType,
+} from '../types.js'
+import { formatAmount, formatDetails, formatPrice, formatTable, type Column } from './format.js'
+
+export interface CliOptions {
+  /** Passed to the `Surpay` constructor over the environment, e.g. a custom `fetch` in tests */
+  config?: SurpayConfig
+  /** Default: `process.stdout` */
+  stdout?: (text: string) => void
+  /** Default: `process.stderr` */
+  stderr?: (text: string) => void
+}
+
+type Values = Record<string, string | boolean | Array<string | boolean> | undefined>
+
+interface Command {
+  /** Arguments and options shown in help, e.g. `<productId> [--name <name>]` */
+  usage: string
+  description: string
+  options?: NonNullable<ParseArgsConfig['options']>
+  /** Number of required positional arguments */
+  positionals?: number
+  run: (surpay: Surpay, values: Values, positionals: string[]) => Promise<Result<unknown, SurpayError>>
+  /** Renders successful data in table mode. Default: `formatDetails` */
+  render?: (data: never) => string
+  /** Reports partial failures inside successful data, which exit with code 1 */
+  failed?: (data: never) => boolean
+}
+
+/** Invalid command line. Printed with the command's usage, exit code 2. */
+class UsageError extends Error {}
+
+const PAGINATION_OPTIONS = { limit: { type: 'string' }, 'starting-after': { type: 'string' } } as const
+
+const PAGINATION_USAGE = '[--limit <n>] [--starting-after <cursor>]'
+
+const string = (values: Values, name: string): string | undefined => values[name] as string | undefined
+
+const requiredString = (values: Values, name: string): string => {
+  const value = string(values, name)
+  if (value === undefined) throw new UsageError(`Missing required option --${name}`)
+  return value
+}
+
+/** Parses a numeric option. Invalid numbers are left for the SDK's request validation to report. */
+const number = (values: Values, name: string): number | undefined => {
+  const value = string(values, name)
+  return value === undefined ? undefined : Number(value)
+}
+
+const list = (values: Values, name: string): string[] | undefined => string(values, name)?.split(',')
+
+const pagination = (values: Values) => ({
+  limit: number(values, 'limit'),
+  startingAfter: string(values, 'starting-after'),
+})
+
+/** Parses `--feature id[:limit[:interval]]`, e.g. `api_calls:1000:month`. */
+const parseFeature = (value: string): ProductFeature => {
+  const [id = '', limit, resetInterval] = value.split(':')
+  return {
+    id,
+    ...(limit ? { limit: Number(limit) } : {}),
+    ...(resetInterval ? { resetInterval: resetInterval as RecurringInterval } : {}),
+  }
+}
+
+const features = (values: Values): ProductFeature[] | undefined =>
+  (values.feature as string[] | undefined)?.map(parseFeature)
+
+/** Parses each `--currency-option code:amount`, e.g. `EUR:1800`, into `{ EUR: 1800 }`. */
+const currencyOptions = (values: Values): Record<string, number> | undefined => {
+  const options = values['currency-option'] as string[] | undefined
+  return options?.reduce<Record<string, number>>((result, option) => {
+    // A missing amount becomes NaN, which request validation reports
+    const [code = '', amount] = option.split(':')
+    return { ...result, [code]: Number(amount) }
+  }, {})
+}
+
+const pageTable =
+  <T>(columns: Column<T>[]) =>
+  (page: Page<T>): string => {
+    const table = formatTable(page.data, columns)
+    return page.hasMore ? `${table}\n\nMore results: --starting-after ${page.nextCursor}` : table
+  }
+
+const PRODUCT_COLUMNS: Column<ProductWithPrices>[] = [
+  ['id', ({ product }) => product.id],
+  ['name', ({ product }) => product.name],
+  ['slug', ({ product }) => product.slug],
+  ['group', ({ product }) => product.productGroup],
+  ['status', ({ product }) => (product.isArchived ? 'archived' : 'active')],
+  ['prices', ({ prices }) => prices.map(formatPrice).join(', ')],
+]
+
+const CUSTOMER_COLUMNS: Column<Customer>[] = [
+  ['id', (customer) => customer.id],
+  ['external id', (customer) => customer.externalId],
+  ['email', (customer) => customer.email],
+  ['name', (customer) => customer.name],
+]
+
+const SUBSCRIPTION_COLUMNS: Column<Subscription>[] = [
+  ['id', (subscription) => subscription.id],
+  ['status', (subscription) => subscription.status],
+  ['customer', (subscription) => subscription.customerId],
+  ['product', (subscription) => subscription.productId],
+  ['price', (subscription) => subscription.productPriceId],
+  ['period end', (subscription) => subscription.currentPeriodEnd],
+  ['cancels', (subscription) => (subscription.cancelAtPeriodEnd ? 'at period end' : null)],
+]
+
+const TRANSACTION_COLUMNS: Column<Transaction>[] = [
+  ['id', (transaction) => transaction.id],
+  ['type', (transaction) => transaction.type],
+  ['amount', (transaction) => formatAmount(transaction.amount, transaction.currency)],
+  ['customer', (transaction) => transaction.customerId],
+  ['product', (transaction) => transaction.productId],
+  ['created', (transaction) => transaction.createdAt],
+]
+
+const renderCustomer = (customer: CustomerWithDetails): string =>
+  [
+    formatDetails(customer),
+    `Subscriptions\n${formatTable(customer.subscriptions, [
+      ['id', (subscription) => subscription.id],
+      ['status', (subscription) => subscription.status],
+      ['period end', (subscription) => subscription.currentPeriodEnd],
+    ])}`,
+    `Transactions\n${formatTable(customer.transactions, [
+      ['id', (transaction) => transaction.id],
+      ['type', (transaction) => transaction.type],
+      ['amount', (transaction) => formatAmount(transaction.amount, transaction.currency)],
+      ['created', (transaction) => transaction.createdAt],
+    ])}`,
+  ].join('\n\n')
+
+const renderCatalogSync = ({ dryRun, changes }: CatalogSyncResult): string => {
+  if (changes.length === 0) return 'Catalog is up to date'
+  const table = formatTable(changes, [
+    ['status', (change) => change.status],
+    ['change', (change) => change.summary],
+    ['error', (change) => change.error?.message],
+  ])
+  return dryRun ? `${table}\n\nDry run: nothing was changed` : table
+}
+
+const readCatalog = async (path: string): Promise<CatalogDefinition> => {
+  let text: string
+  try {
+    text = await readFile(path, 'utf8')
+  } catch (error) {
+    throw new UsageError(`Cannot read ${path}: ${(error as Error).message}`)
+  }
+  let definition: unknown
+  try {
+    definition = JSON.parse(text)
+  } catch (error) {
+    throw new UsageError(`${path} is not valid JSON: ${(error as Error).message}`)
+  }
+  const products = (definition as { products?: unknown } | null)?.products
+  if (typeof products !== 'object' || products === null || Array.isArray(products)) {
+    throw new UsageError(`${path} must contain a "products" object keyed by product slug`)
+  }
+  return definition as CatalogDefinition
+}
+
+const COMMANDS: Record<string, Command> = {
+  'products list': {
+    usage: PAGINATION_USAGE,
+    description: 'List products with their prices',
+    options: PAGINATION_OPTIONS,
+    run: (surpay, values) => surpay.products.listWithPrices(pagination(values)),
+    render: pageTable(PRODUCT_COLUMNS),
+  },
+  'products create': {
+    usage:
+      '--group <productGroup> --name <name> --slug <slug> [--description <text>] [--default] ' +
+      '[--feature <id[:limit[:interval]]>]...',
+    description: 'Create a product',
+    options: {
+      group: { type: 'string' },
+      name: { type: 'string' },
+      slug: { type: 'string' },
+      description: { type: 'string' },
+      default: { type: 'boolean' },
+      feature: { type: 'string', multiple: true },
+    },
+    run: (surpay, values) =>
+      surpay.products.create({
+        productGroup: requiredString(values, 'group'),
+        name: requiredString(values, 'name'),
+        slug: requiredString(values, 'slug'),
+        description: string(values, 'description'),
+        isDefault: values.default as boolean | undefined,
+        features: features(values),
+      }),
+  },
+  'products update': {
+    usage:
+      '<productId> [--name <name>] [--slug <slug>] [--description <text>] [--default] ' +
+      '[--feature <id[:limit[:interval]]>]...',
+    description: 'Update a product. Passing --feature replaces its feature list.',
+    positionals: 1,
+    options: {
+      name: { type: 'string' },
+      slug: { type: 'string' },
+      description: { type: 'string' },
+      default: { type: 'boolean' },
+      feature: { type: 'string', multiple: true },
+    },
+    run: (surpay, values, [productId]) =>
+      surpay.products.update(productId!, {
+        name: string(values, 'name'),
+        slug: string(values, 'slug'),
+        description: string(values, 'description'),
+        isDefault: values.default as boolean | undefined,
+        features: features(values),
+      }),
+  },
+  'products archive': {
+    usage: '<productId>',
+    description: 'Archive a product so it can no longer be purchased',
+    positionals: 1,
+    run: (surpay, _, [productId]) => surpay.products.update(productId!, { isArchived: true }),
+  },
+  'prices create': {
+    usage:
+      '--group <productGroup> --amount <minorUnits> --currency <code> [--interval day|week|month|year] ' +
+      '[--name <name>] [--description <text>] [--slug <slug>] [--default] [--currency-option <code:minorUnits>]...',
+    description:
+      'Create a price for the latest product of a group. --amount is in minor units (cents). ' +
+      'Each --currency-option adds the amount to charge in another currency.',
+    options: {
+      group: { type: 'string' },
+      amount: { type: 'string' },
+      currency: { type: 'string' },
+      interval: { type: 'string' },
+      name: { type: 'string' },
+      description: { type: 'string' },
+      slug: { type: 'string' },
+      default: { type: 'boolean' },
+      'currency-option': { type: 'string', multiple: true },
+    },
+    run: (surpay, values) =>
+      surpay.prices.create({
+        productGroup: requiredString(values, 'group'),
+        price: Number(requiredString(values, 'amount')),
+        priceCurrency: requiredString(values, 'currency'),
+        recurringInterval: string(values, 'interval') as RecurringInterval | undefined,
+        name: string(values, 'name'),
+        description: string(values, 'description'),
+        slug: string(values, 'slug'),
+        isDefault: values.default as boolean | undefined,
+        currencyOptions: currencyOptions(values),
+      }),
+  },
+  'prices update': {
+    usage: '<priceId> [--name <name>] [--description <text>] [--default]',
+    description: 'Rename a price or make it the default. Amounts are fixed; create a new price instead.',
+    positionals: 1,
+    options: {
+      name: { type: 'string' },
+      description: { type: 'string' },
+      default: { type: 'boolean' },
+    },
+    run: (surpay, values, [priceId]) =>
+      surpay.prices.update(priceId!, {
+        name: string(values, 'name'),
+        description: string(values, 'description'),
+        isDefault: values.default as boolean | undefined,
+      }),
+  },
+  'prices archive': {
+    usage: '<priceId>',
+    description: 'Archive a price so it can no longer be used for new checkouts',
+    positionals: 1,
+    run: (surpay, _, [priceId]) => surpay.prices.archive(priceId!),
+  },
+  'catalog sync': {
+    usage: '--file <catalog.json> [--dry-run] [--archive-missing]',
+    description: 'Create, update and archive products and prices to match a catalog definition file',
+    options: {
+      file: { type: 'string' },
+      'dry-run': { type: 'boolean' },
+      'archive-missing': { type: 'boolean' },
+    },
+    run: async (surpay, values) =>
+      surpay.catalog.sync(await readCatalog(requiredString(values, 'file')), {
+        dryRun: values['dry-run'] === true,
+        archiveMissing: values['archive-missing'] === true,
+      }),
+    render: renderCatalogSync,
+    failed: ({ changes }: CatalogSyncResult) => changes.some(({ status }) => status === 'failed'),
+  },
+  'customers list': {
+    usage: PAGINATION_USAGE,
+    description: 'List customers',
+    options: PAGINATION_OPTIONS,
+    run: (surpay, values) => surpay.customers.list(pagination(values)),
+    render: pageTable(CUSTOMER_COLUMNS),
+  },
+  'customers get': {
+    usage: '<customerId> | --external-id <externalId>',
+    description: 'Show a customer with their subscriptions and transactions',
+    options: { 'external-id': { type: 'string' } },
+    run: async (surpay, values, [customerId]) => {
+      const externalId = string(values, 'external-id')
+      if (customerId) return surpay.customers.get(customerId)
+      if (!externalId) throw new UsageError('Pass a customer ID or --external-id')
+      // Resolve the external ID first, since only lookups by ID include subscriptions and transactions
+      const customer = await surpay.customers.getByExternalId(externalId)
+      return customer.error ? customer : surpay.customers.get(customer.data.id)
+    },
+    render: renderCustomer,
+  },
+  'subscriptions list': {
+    usage: `[--customer <customerId>] [--status <status,...>] ${PAGINATION_USAGE}`,
+    description: 'List subscriptions',
+    options: { customer: { type: 'string' }, status: { type: 'string' }, ...PAGINATION_OPTIONS },
+    run: (surpay, values) =>
+      surpay.subscriptions.list({
+        customerId: string(values, 'customer'),
+        status: list(values, 'status') as SubscriptionStatus[] | undefined,
+        ...pagination(values),
+      }),
+    render: pageTable(SUBSCRIPTION_COLUMNS),
+  },
+  'transactions list': {
+    usage:
+      '[--customer <customerId>] [--product <productId>] [--type <type,...>] ' +
+      `[--created-after <date>] [--created-before <date>] ${PAGINATION_USAGE}`,
+    description: 'List transactions',
+    options: {
+      customer: { type: 'string' },
+      product: { type: 'string' },
+      type: { type: 'string' },
+      'created-after': { type: 'string' },
+      'created-before': { type: 'string' },
+      ...PAGINATION_OPTIONS,
+    },
+    run: (surpay, values) =>
+      surpay.transactions.list({
+        customerId: string(values, 'customer'),
+        productId: string(values, 'product'),
+        type: list(values, 'type') as TransactionType[] | undefined,
+        createdAfter: string(values, 'created-after'),
+        createdBefore: string(values, 'created-before'),
+        ...pagination(values),
+      }),
+    render: pageTable(TRANSACTION_COLUMNS),
+  },
+  'checkout create': {
+    usage:
+      '--product <productId> [--price <priceId>] [--customer <customerId>] [--email <email>] ' +
+      '[--currency <code>] [--success-url <url>] [--cancel-url <url>] [--quantity <n>] [--trial-days <n>]',
+    description: 'Create a checkout session and print its purchase URL',
+    options: {
+      product: { type: 'string' },
+      price: { type: 'string' },
+      currency: { type: 'string' },
+      customer: { type: 'string' },
+      email: { type: 'string' },
+      'success-url': { type: 'string' },
+      'cancel-url': { type: 'string' },
+      quantity: { type: 'string' },
+      'trial-days': { type: 'string' },
+    },
+    run: (surpay, values) =>
+      surpay.checkout.create({
+        productId: requiredString(values, 'product'),
+        priceId: string(values, 'price'),
+        currency: string(values, 'currency'),
+        customerId: string(values, 'customer'),
+        customerEmail: string(values, 'email'),
+        successUrl: string(values, 'success-url'),
+        cancelUrl: string(values, 'cancel-url'),
+        quantity: number(values, 'quantity'),
+        trialDays: number(values, 'trial-days'),
+      }),
+    render: (session: CheckoutSession) => formatDetails(session),
+  },
+}
+
+/** parseArgs reports unknown options and missing values with `ERR_PARSE_ARGS_*` error codes. */
+const isParseArgsError = (error: unknown): error is Error =>
+  error instanceof Error && String((error as { code?: unknown }).code).startsWith('ERR_PARSE_ARGS')
+
+const GLOBAL_OPTIONS = { json: { type: 'boolean' }, help: { type: 'boolean', short: 'h' } } as const
+
+const commandHelp = (name: string, command: Command) => `surpay ${name} ${command.usage}\n  ${command.description}`
+
+const HELP = [
+  'Usage: surpay <command> [options]',
+  '',
+  'Commands:',
+  ...Object.entries(COMMANDS).map(([name, command]) => `  ${name.padEnd(20)}${command.description}`),
+  '',
+  'Options:',
+  '  --json       Print the raw API response as JSON',
+  '  -h, --help   Show help for a command',
+  '',
+  'Environment:',
+  '  SURPAY_API_KEY    API key (required)',
+  '  SURPAY_BASE_URL   API base URL. Default: https://pay.surgent.dev',
+].join('\n')
+
+/**
+ * Runs the CLI with the arguments after the executable name and returns the process exit code:
+ * 0 on success, 1 when the API call fails and 2 for an invalid command line.
+ */
+export const runCli = async (argv: string[], options: CliOptions = {}): Promise<number> => {
+  const stdout = options.stdout ?? ((text: string) => process.stdout.write(text))
+  const stderr = options.stderr ?? ((text: string) => process.stderr.write(text))
+
+  const [group, action] = argv
+  const name = `${group} ${action}`
+  const command = COMMANDS[name]
+  if (!command) {
+    const wantsHelp = argv.length === 0 || group === 'help' || group === '--help' || group === '-h'
+    if (!wantsHelp) stderr(`Unknown command: ${argv.slice(0, 2).join(' ')}\n\n`)
+    ;(wantsHelp ? stdout : stderr)(`${HELP}\n`)
+    return wantsHelp ? 0 : 2
+  }
+
+  let surpay: Surpay
+  let json = false
+  let result: Result<unknown, SurpayError>
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv.slice(2),
+      options: { ...GLOBAL_OPTIONS, ...command.options },
+      allowPositionals: true,
+    })
+    if (values.help) {
+      stdout(`${commandHelp(name, command)}\n`)
+      return 0
+    }
+    if (positionals.length < (command.positionals ?? 0)) {
+      throw new UsageError(`Missing argument: ${command.usage.split(' ')[0]}`)
+    }
+    json = values.json === true
+    surpay = new Surpay(options.config)
+    result = await command.run(surpay, values, positionals)
+  } catch (error) {
+    if (isSurpayError(error)) {
+      stderr(`Error: ${error.message}\n`)
+      return 1
+    }
+    if (error instanceof UsageError || isParseArgsError(error)) {
+      stderr(`Error: ${error.message}\n\n${commandHelp(name, command)}\n`)
+      return 2
+    }
+    throw error
+  }
+
+  if (result.error) {
+    stderr(`Error: ${result.error.message} (${result.error.code})\n`)
+    if (result.error.requestId) stderr(`Request ID: ${result.error.requestId}\n`)
+    return 1
+  }
+  const render = (command.render ?? formatDetails) as (data: unknown) => string
+  stdout(`${json ? JSON.stringify(result.data, null, 2) : render(result.data)}\n`)
+  return (command.failed as ((data: unknown) => boolean) | undefined)?.(result.data) ? 1 : 0
+}
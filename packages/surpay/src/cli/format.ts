@@ -0,0 +1,55 @@
+/**
+ * Plain-text output for the `surpay` CLI.
+ */
+
+import type { ProductPrice } from '../types.js'
+
+/** A table column: header and how to read the cell from a row */
+export type Column<T> = [header: string, cell: (row: T) => unknown]
+
+const formatCell = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '-'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/** Renders rows as left-aligned columns separated by two spaces, with an upper-case header line. */
+export const formatTable = <T>(rows: T[], columns: Column<T>[]): string => {
+  const cells = rows.map((row) => columns.map(([, cell]) => formatCell(cell(row))))
+  const headers = columns.map(([header]) => header.toUpperCase())
+  const widths = headers.map((header, index) => Math.max(header.length, ...cells.map((line) => line[index]!.length)))
+  const toLine = (line: string[]) => line.map((cell, index) => cell.padEnd(widths[index]!)).join('  ').trimEnd()
+  return [toLine(headers), ...cells.map(toLine)].join('\n')
+}
+
+/** Renders the scalar fields of a record as aligned `key  value` lines. Nested arrays are left out. */
+export const formatDetails = (record: object): string => {
+  const entries = Object.entries(record).filter(([, value]) => !Array.isArray(value))
+  const width = Math.max(0, ...entries.map(([key]) => key.length))
+  return entries.map(([key, value]) => `${key.padEnd(width)}  ${formatCell(value)}`).join('\n')
+}
+
+/**
+ * Formats an amount in minor units using the currency's own number of decimals, e.g. `$20.00` or `¥500`.
+ * Unknown currency codes fall back to the raw amount.
+ */
+export const formatAmount = (amount: number, currency: string): string => {
+  try {
+    const format = new Intl.NumberFormat('en-US', { style: 'currency', currency })
+    const decimals = format.resolvedOptions().maximumFractionDigits ?? 2
+    return format.format(amount / 10 ** decimals)
+  } catch {
+    return `${amount} ${currency}`
+  }
+}
+
+/** e.g. `price_2 $20.00/month (default)`, or `price_3 $20.00 or €18.00/month (archived)` with currency options */
+export const formatPrice = (price: ProductPrice): string => {
+  const amounts = [
+    formatAmount(price.priceAmount, price.priceCurrency),
+    ...Object.entries(price.currencyOptions ?? {}).map(([currency, amount]) => formatAmount(amount, currency)),
+  ]
+  const interval = price.recurringInterval ? `/${price.recurringInterval}` : ''
+  const status = price.isArchived ? ' (archived)' : price.isDefault ? ' (default)' : ''
+  return `${price.id} ${amounts.join(' or ')}${interval}${status}`
+}
@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+/**
+ * Executable of the `surpay` command. See `cli.ts`.
+ */
+
+import { runCli } from './cli.js'
+
+process.exitCode = await runCli(process.argv.slice(2))
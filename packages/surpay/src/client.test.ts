@@ -0,0 +1,458 @@
+import { describe, test, expect, afterEach } from 'bun:test'
+import { SurpayClient, type SurpayClientOptions } from './client.js'
+import { SurpayNetworkError } from './errors.js'
+import type { RequestContext, RequestOptions } from './types.js'
+
+class TestClient extends SurpayClient {
+  constructor(options: Partial<SurpayClientOptions> = {}) {
+    super({ apiKey: 'test_key', baseUrl: 'http://surpay.test', ...options })
+  }
+
+  getPath = (path: string, options?: RequestOptions) => this.get<unknown>(path, options)
+  postPath = (path: string, body?: unknown, options?: RequestOptions) => this.post<unknown>(path, body, options)
+}
+
+const originalFetch = globalThis.fetch
+
+/** Replaces global fetch with a stub that replays the given responses in order. */
+const stubFetch = (responses: Array<Response | Error>) => {
+  const calls: Array<{ url: string; init: RequestInit }> = []
+  globalThis.fetch = (async (url: string, init: RequestInit) => {
+    calls.push({ url, init })
+    const next = responses.shift()
+    if (!next) throw new Error('Unexpected fetch call')
+    if (next instanceof Error) throw next
+    return next
+  }) as typeof fetch
+  return calls
+}
+
+const headerOf = (init: RequestInit, name: string) => new Headers(init.headers).get(name) ?? undefined
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } })
+
+afterEach(() => {
+  globalThis.fetch = originalFetch
+})
+
+describe('SurpayClient retries', () => {
+  const fastRetry = { baseDelayMs: 1, jitter: false }
+
+  test('retries transient 5xx responses and reports attempts', async () => {
+    const calls = stubFetch([json(502, {}), json(503, {}), json(200, { ok: true })])
+
+    const result = await new TestClient({ retry: fastRetry }).getPath('/customers')
+
+    expect(result.error).toBeNull()
+    expect(result.data).toEqual({ ok: true })
+    expect(result.attempts).toBe(3)
+    expect(calls).toHaveLength(3)
+  })
+
+  test('network failures are SurpayNetworkErrors carrying the cause', async () => {
+    const cause = new TypeError('fetch failed')
+    stubFetch([cause])
+
+    const result = await new TestClient({ retry: { maxAttempts: 1 } }).getPath('/customers')
+
+    expect(result.error).toBeInstanceOf(SurpayNetworkError)
+    expect(result.error?.cause).toBe(cause)
+  })
+
+  test('retries network errors', async () => {
+    stubFetch([new TypeError('fetch failed'), json(200, [])])
+
+    const result = await new TestClient({ retry: fastRetry }).getPath('/customers')
+
+    expect(result.error).toBeNull()
+    expect(result.attempts).toBe(2)
+  })
+
+  test('gives up after maxAttempts and returns the last failure', async () => {
+    stubFetch([json(500, {}), json(500, { message: 'still broken' })])
+
+    const result = await new TestClient({ retry: { ...fastRetry, maxAttempts: 2 } }).getPath('/customers')
+
+    expect(result.error?.message).toBe('still broken')
+    expect(result.attempts).toBe(2)
+  })
+
+  test('does not retry non-retryable statuses', async () => {
+    stubFetch([json(404, {})])
+
+    const result = await new TestClient({ retry: fastRetry }).getPath('/customers/missing')
+
+    expect(result.error?.code).toBe('not_found')
+    expect(result.attempts).toBe(1)
+  })
+
+  test('does not retry POST without an idempotency key', async () => {
+    const calls = stubFetch([json(502, {})])
+
+    const result = await new TestClient({ retry: fastRetry }).postPath('/checkout', {})
+
+    expect(result.statusCode).toBe(502)
+    expect(result.attempts).toBe(1)
+    expect(calls).toHaveLength(1)
+  })
+
+  test('honors Retry-After on 429', async () => {
+    stubFetch([json(429, {}, { 'Retry-After': '0.05' }), json(200, {})])
+
+    const startedAt = Date.now()
+    const result = await new TestClient({ retry: { baseDelayMs: 0, jitter: false } }).getPath('/customers')
+
+    expect(result.error).toBeNull()
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45)
+  })
+
+  test('returns the failure instead of waiting for a Retry-After beyond maxDelayMs', async () => {
+    const calls = stubFetch([json(429, {}, { 'Retry-After': '3600' })])
+
+    const startedAt = Date.now()
+    const result = await new TestClient({ retry: { maxDelayMs: 1000 } }).getPath('/customers')
+
+    expect(result.statusCode).toBe(429)
+    expect(result.attempts).toBe(1)
+    expect(result.error).toMatchObject({ retryAfter: 3600 })
+    expect(calls).toHaveLength(1)
+    expect(Date.now() - startedAt).toBeLessThan(500)
+  })
+
+  test('does not wait for a far-future Retry-After date on 503', async () => {
+    const retryAt = new Date(Date.now() + 40 * 24 * 60 * 60 * 1000).toUTCString()
+    stubFetch([json(503, {}, { 'Retry-After': retryAt })])
+
+    const result = await new TestClient().getPath('/customers')
+
+    expect(result.statusCode).toBe(503)
+    expect(result.attempts).toBe(1)
+  })
+
+  test('maxAttempts of 1 disables retries', async () => {
+    stubFetch([json(503, {})])
+
+    const result = await new TestClient({ retry: { maxAttempts: 1 } }).getPath('/customers')
+
+    expect(result.statusCode).toBe(503)
+    expect(result.attempts).toBe(1)
+  })
+})
+
+describe('SurpayClient idempotency keys', () => {
+  const fastRetry = { baseDelayMs: 1, jitter: false }
+
+  test('sends the idempotency key header and retries POST with it', async () => {
+    const calls = stubFetch([json(502, {}), json(200, {})])
+
+    const result = await new TestClient({ retry: fastRetry }).postPath('/checkout', {}, { idempotencyKey: 'key_123' })
+
+    expect(result.attempts).toBe(2)
+    expect(calls.map((call) => headerOf(call.init, 'Idempotency-Key'))).toEqual(['key_123', 'key_123'])
+  })
+
+  test('omits the header by default', async () => {
+    const calls = stubFetch([json(200, {})])
+
+    await new TestClient().postPath('/checkout', {})
+
+    expect(headerOf(calls[0]!.init, 'Idempotency-Key')).toBeUndefined()
+  })
+
+  test('auto-generates one key per call and reuses it across retries', async () => {
+    const calls = stubFetch([json(503, {}), json(200, {}), json(200, {})])
+    const client = new TestClient({ retry: fastRetry, autoIdempotencyKeys: true })
+
+    await client.postPath('/checkout', {})
+    await client.postPath('/checkout', {})
+
+    const keys = calls.map((call) => headerOf(call.init, 'Idempotency-Key'))
+    expect(keys[0]).toBeString()
+    expect(keys[1]).toBe(keys[0])
+    expect(keys[2]).not.toBe(keys[0])
+  })
+
+  test('an explicit key wins over the auto-generated one', async () => {
+    const calls = stubFetch([json(200, {})])
+
+    await new TestClient({ autoIdempotencyKeys: true }).postPath('/checkout', {}, { idempotencyKey: 'mine' })
+
+    expect(headerOf(calls[0]!.init, 'Idempotency-Key')).toBe('mine')
+  })
+})
+
+describe('SurpayClient headers', () => {
+  test('appends the userAgent suffix to the SDK User-Agent', async () => {
+    const calls = stubFetch([json(200, {}), json(200, {})])
+
+    await new TestClient().getPath('/customers')
+    await new TestClient({ userAgent: 'my-app/1.0' }).getPath('/customers')
+
+    expect(calls.map((call) => headerOf(call.init, 'User-Agent'))).toEqual(['@surgent/pay', '@surgent/pay my-app/1.0'])
+  })
+})
+
+describe('SurpayClient fetch option', () => {
+  test('uses the injected fetch instead of the global one', async () => {
+    const globalCalls = stubFetch([])
+    const urls: string[] = []
+    const client = new TestClient({
+      fetch: async (url) => {
+        urls.push(url)
+        return json(200, { ok: true })
+      },
+    })
+
+    const result = await client.getPath('/customers')
+
+    expect(result.data).toEqual({ ok: true })
+    expect(urls).toEqual(['http://surpay.test/customers'])
+    expect(globalCalls).toHaveLength(0)
+  })
+})
+
+describe('SurpayClient middleware', () => {
+  const fastRetry = { baseDelayMs: 1, jitter: false }
+
+  test('onRequest can add headers and replace the body', async () => {
+    const calls = stubFetch([json(200, {})])
+    const client = new TestClient({
+      middleware: [
+        {
+          onRequest: (context) => {
+            context.headers['X-Trace-Id'] = 'trace_1'
+            context.body = { ...(context.body as object), traced: true }
+          },
+        },
+      ],
+    })
+
+    await client.postPath('/checkout', { productId: 'prod_1' })
+
+    expect(headerOf(calls[0]!.init, 'X-Trace-Id')).toBe('trace_1')
+    expect(JSON.parse(calls[0]!.init.body as string)).toEqual({ productId: 'prod_1', traced: true })
+  })
+
+  test('onRequest hooks run in order and a returned Result skips the network', async () => {
+    const calls = stubFetch([])
+    const order: string[] = []
+    const client = new TestClient({
+      middleware: [
+        {
+          onRequest: () => {
+            order.push('first')
+            return { data: { cached: true }, error: null, statusCode: 200 }
+          },
+        },
+        { onRequest: () => void order.push('second') },
+      ],
+    })
+
+    const result = await client.getPath('/customers')
+
+    expect(result.data).toEqual({ cached: true })
+    expect(result.attempts).toBe(1)
+    expect(order).toEqual(['first'])
+    expect(calls).toHaveLength(0)
+  })
+
+  test('onResponse runs in reverse order with timings and can replace the result', async () => {
+    stubFetch([json(200, { id: 'cus_1' })])
+    const seen: Array<{ name: string; attempt: number; durationMs?: number }> = []
+    const record = (name: string) => (context: RequestContext) => {
+      seen.push({ name, attempt: context.attempt, durationMs: context.durationMs })
+    }
+    const client = new TestClient({
+      middleware: [
+        { onResponse: record('outer') },
+        {
+          onResponse: (context, result) => {
+            record('inner')(context)
+            return { ...result, data: { replaced: true } } as typeof result
+          },
+        },
+      ],
+    })
+
+    const result = await client.getPath('/customers/cus_1')
+
+    expect(result.data).toEqual({ replaced: true })
+    expect(seen.map((entry) => entry.name)).toEqual(['inner', 'outer'])
+    expect(seen.every((entry) => entry.attempt === 1 && typeof entry.durationMs === 'number')).toBe(true)
+  })
+
+  test('runs for every retry attempt', async () => {
+    stubFetch([json(503, {}), json(200, {})])
+    const attempts: number[] = []
+    const client = new TestClient({
+      retry: fastRetry,
+      middleware: [{ onRequest: (context) => void attempts.push(context.attempt) }],
+    })
+
+    await client.getPath('/customers')
+
+    expect(attempts).toEqual([1, 2])
+  })
+
+  test('onError sees network failures and can recover with a fallback', async () => {
+    stubFetch([new TypeError('fetch failed')])
+    const errors: string[] = []
+    const client = new TestClient({
+      retry: { maxAttempts: 1 },
+      middleware: [
+        { onError: (_context, result) => void errors.push(`outer:${result.error.code}`) },
+        {
+          onError: (_context, result, cause) => {
+            errors.push(`inner:${result.error.code}:${(cause as Error).message}`)
+            return { data: [], error: null, statusCode: 200 }
+          },
+        },
+      ],
+    })
+
+    const result = await client.getPath('/customers')
+
+    expect(result.data).toEqual([])
+    expect(errors).toEqual(['inner:network_error:fetch failed'])
+  })
+})
+
+describe('SurpayClient request options', () => {
+  /** A fetch that never responds and rejects with the signal's reason once it aborts. */
+  const hangingFetch = async (_url: string, init: RequestInit) =>
+    new Promise<Response>((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(init.signal?.reason), { once: true })
+    })
+
+  /** A fetch that responds at once with a body that never finishes, erroring like fetch once the signal aborts. */
+  const stalledBodyFetch = async (_url: string, init: RequestInit) =>
+    new Response(
+      new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('{"ok":'))
+          init.signal?.addEventListener('abort', () => controller.error(init.signal?.reason), { once: true })
+        },
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    )
+
+  test('merges per-call headers over the defaults', async () => {
+    const calls = stubFetch([json(200, {})])
+
+    await new TestClient().getPath('/customers', { headers: { 'X-Tenant': 'acme' } })
+
+    expect(headerOf(calls[0]!.init, 'X-Tenant')).toBe('acme')
+    expect(headerOf(calls[0]!.init, 'Authorization')).toBe('Bearer test_key')
+  })
+
+  test('per-call headers replace defaults regardless of casing', async () => {
+    const calls = stubFetch([json(200, {})])
+
+    await new TestClient().getPath('/customers', {
+      headers: { authorization: 'Bearer other', 'content-type': 'text/plain' },
+    })
+
+    expect(headerOf(calls[0]!.init, 'Authorization')).toBe('Bearer other')
+    expect(headerOf(calls[0]!.init, 'Content-Type')).toBe('text/plain')
+  })
+
+  test('a lowercase idempotency-key header makes POST retryable', async () => {
+    const calls = stubFetch([json(502, {}), json(200, {})])
+
+    const result = await new TestClient({ retry: { baseDelayMs: 1, jitter: false } }).postPath(
+      '/checkout',
+      {},
+      { headers: { 'idempotency-key': 'key_123' } }
+    )
+
+    expect(result.attempts).toBe(2)
+    expect(calls.map((call) => headerOf(call.init, 'Idempotency-Key'))).toEqual(['key_123', 'key_123'])
+  })
+
+  test('does not send an idempotency key on GET', async () => {
+    const calls = stubFetch([json(200, {})])
+
+    await new TestClient().getPath('/customers', { idempotencyKey: 'key_123' })
+
+    expect(headerOf(calls[0]!.init, 'Idempotency-Key')).toBeUndefined()
+  })
+
+  test('timeoutMs overrides the client timeout and reports timeout_error', async () => {
+    const client = new TestClient({ fetch: hangingFetch, timeoutMs: 60_000, retry: { maxAttempts: 1 } })
+
+    const result = await client.getPath('/customers', { timeoutMs: 10 })
+
+    expect(result.error?.code).toBe('timeout_error')
+    expect(result.error?.message).toBe('Request timed out after 10ms')
+  })
+
+  test('rejects an invalid per-call timeoutMs without a request', async () => {
+    const calls = stubFetch([])
+    const client = new TestClient()
+
+    for (const timeoutMs of [-1, 0, Number.NaN]) {
+      const result = await client.getPath('/customers', { timeoutMs })
+
+      expect(result.error?.code).toBe('validation_error')
+      expect(result.error?.message).toBe('Invalid request: timeoutMs must be a positive number')
+    }
+    expect(calls).toHaveLength(0)
+  })
+
+  test('a timeout while reading the body reports timeout_error', async () => {
+    const client = new TestClient({ fetch: stalledBodyFetch, retry: { maxAttempts: 1 } })
+
+    const result = await client.getPath('/customers', { timeoutMs: 10 })
+
+    expect(result.error?.code).toBe('timeout_error')
+    expect(result.error).toBeInstanceOf(SurpayNetworkError)
+  })
+
+  test("aborting the caller's signal while reading the body returns an aborted failure", async () => {
+    const controller = new AbortController()
+    const client = new TestClient({ fetch: stalledBodyFetch })
+
+    const pending = client.getPath('/customers', { signal: controller.signal })
+    setTimeout(() => controller.abort(), 10)
+    const result = await pending
+
+    expect(result.error?.code).toBe('aborted')
+    expect(result.attempts).toBe(1)
+  })
+
+  test("aborting the caller's signal returns an aborted failure", async () => {
+    const controller = new AbortController()
+    const client = new TestClient({ fetch: hangingFetch })
+
+    const pending = client.getPath('/customers', { signal: controller.signal })
+    controller.abort()
+    const result = await pending
+
+    expect(result.error?.code).toBe('aborted')
+    expect(result.statusCode).toBe(0)
+    expect(result.attempts).toBe(1)
+  })
+
+  test('an already aborted signal skips the request', async () => {
+    const calls = stubFetch([])
+
+    const result = await new TestClient().getPath('/customers', { signal: AbortSignal.abort() })
+
+    expect(result.error?.code).toBe('aborted')
+    expect(calls).toHaveLength(0)
+  })
+
+  test('aborting during backoff stops further retries', async () => {
+    const calls = stubFetch([json(503, {}), json(200, {})])
+    const controller = new AbortController()
+    const client = new TestClient({ retry: { baseDelayMs: 60_000, jitter: false } })
+
+    const pending = client.getPath('/customers', { signal: controller.signal })
+    setTimeout(() => controller.abort(), 10)
+    const result = await pending
+
+    expect(result.error?.code).toBe('aborted')
+    expect(calls).toHaveLength(1)
+  })
+})
@@ -4,9 +4,21 @@
  * Provides core HTTP methods with Result pattern error handling.
  */
 
-import { toResult, type ToResultOptions } from './utils/result.js'
-import { SurpayError } from './errors.js'
-import type { ResponseCase, Result } from './types.js'
+import { abortedFailure, parseRetryAfter, toResult, type ToResultOptions } from './utils/result.js'
+import { sleep } from './utils/sleep.js'
+import { validateRequestOptions } from './validation.js'
+import { SurpayNetworkError, type SurpayError } from './errors.js'
+import type { Schema } from './schema.js'
+import type {
+  Failure,
+  FetchFunction,
+  RequestContext,
+  RequestOptions,
+  ResponseCase,
+  Result,
+  RetryOptions,
+  SurpayMiddleware,
+} from './types.js'
 
 const DEFAULT_BASE_URL = 'https://pay.surgent.dev'
 
@@ -16,71 +28,230 @@ export interface SurpayClientOptions {
   responseCase?: ResponseCase
   /** Request timeout in milliseconds. Default: 30000 (30 seconds) */
   timeoutMs?: number
+  /** Retry policy for transient failures. Default: 3 attempts with exponential backoff */
+  retry?: RetryOptions
+  /** Generate an idempotency key for POST/PUT calls that do not pass one. Default: false */
+  autoIdempotencyKeys?: boolean
+  /** Appended to the SDK's `User-Agent` header */
+  userAgent?: string
+  /** Validate successful responses against the schema passed by the caller. Default: false */
+  strict?: boolean
+  /** Custom `fetch` implementation. Default: the global `fetch`, looked up on every request */
+  fetch?: FetchFunction
+  /** Hooks run around every HTTP attempt, in order */
+  middleware?: SurpayMiddleware[]
 }
 
 const DEFAULT_TIMEOUT_MS = 30000
 
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  jitter: true,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  retryableErrorCodes: ['network_error', 'timeout_error'],
+}
+
+const IDEMPOTENCY_HEADER = 'Idempotency-Key'
+const SDK_USER_AGENT = '@surgent/pay'
+
 export class SurpayClient {
   protected readonly baseUrl: string
   protected readonly headers: Record<string, string>
   protected readonly resultOptions: ToResultOptions
   protected readonly timeoutMs: number
+  protected readonly retry: Required<RetryOptions>
+  protected readonly autoIdempotencyKeys: boolean
+  protected readonly strict: boolean
+  private readonly fetchImpl: FetchFunction
+  private readonly middleware: SurpayMiddleware[]
 
   constructor(options: SurpayClientOptions) {
     this.baseUrl = options.baseUrl || DEFAULT_BASE_URL
     this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    this.retry = { ...DEFAULT_RETRY, ...options.retry }
+    this.autoIdempotencyKeys = options.autoIdempotencyKeys ?? false
+    this.strict = options.strict ?? false
+    this.fetchImpl = options.fetch ?? ((url, init) => globalThis.fetch(url, init))
+    this.middleware = [...(options.middleware ?? [])]
     this.headers = {
       Authorization: `Bearer ${options.apiKey}`,
       'Content-Type': 'application/json',
+      'User-Agent': options.userAgent ? `${SDK_USER_AGENT} ${options.userAgent}` : SDK_USER_AGENT,
     }
     this.resultOptions = {
       responseCase: options.responseCase ?? 'camel',
     }
   }
 
-  protected async get<T>(path: string): Promise<Result<T, SurpayError>> {
-    return this.request<T>('GET', path)
+  protected async get<T>(path: string, options?: RequestOptions, schema?: Schema<T>): Promise<Result<T, SurpayError>> {
+    return this.request<T>('GET', path, undefined, options, schema)
+  }
+
+  protected async post<T>(
+    path: string,
+    body?: unknown,
+    options?: RequestOptions,
+    schema?: Schema<T>
+  ): Promise<Result<T, SurpayError>> {
+    return this.request<T>('POST', path, body, this.withIdempotencyKey(options), schema)
   }
 
-  protected async post<T>(path: string, body?: unknown): Promise<Result<T, SurpayError>> {
-    return this.request<T>('POST', path, body)
+  protected async put<T>(
+    path: string,
+    body: unknown,
+    options?: RequestOptions,
+    schema?: Schema<T>
+  ): Promise<Result<T, SurpayError>> {
+    return this.request<T>('PUT', path, body, this.withIdempotencyKey(options), schema)
   }
 
-  protected async put<T>(path: string, body: unknown): Promise<Result<T, SurpayError>> {
-    return this.request<T>('PUT', path, body)
+  protected async delete<T>(path: string, options?: RequestOptions): Promise<Result<T, SurpayError>> {
+    return this.request<T>('DELETE', path, undefined, options)
   }
 
-  protected async delete<T>(path: string): Promise<Result<T, SurpayError>> {
-    return this.request<T>('DELETE', path)
+  /** Generates the key once per logical call so every retry of that call sends the same value. */
+  private withIdempotencyKey(options: RequestOptions = {}): RequestOptions {
+    if (options.idempotencyKey || !this.autoIdempotencyKeys) return options
+    return { ...options, idempotencyKey: crypto.randomUUID() }
   }
 
   private async request<T>(
     method: string,
     path: string,
-    body?: unknown
+    body?: unknown,
+    options: RequestOptions = {},
+    schema?: Schema<T>
   ): Promise<Result<T, SurpayError>> {
+    const invalid = validateRequestOptions(options)
+    if (invalid) {
+      return invalid
+    }
+
+    // Header names are case-insensitive, so per-call headers replace defaults in any casing
+    const headers = new Headers(this.headers)
+    for (const [name, value] of Object.entries(options.headers ?? {})) {
+      headers.set(name, value)
+    }
+    if (options.idempotencyKey && (method === 'POST' || method === 'PUT')) {
+      headers.set(IDEMPOTENCY_HEADER, options.idempotencyKey)
+    }
+
+    // POST is not idempotent: only retry it when the server can deduplicate via an idempotency key
+    const canRetry = method !== 'POST' || headers.has(IDEMPOTENCY_HEADER)
+    const maxAttempts = canRetry ? Math.max(1, this.retry.maxAttempts) : 1
+
+    let attempt = 0
+    while (true) {
+      attempt++
+      const { result, retryAfterMs } = await this.attempt<T>(method, path, body, headers, attempt, options, schema)
+      // A Retry-After beyond maxDelayMs is left to the caller rather than blocking this call
+      const waitTooLong = retryAfterMs !== null && retryAfterMs > this.retry.maxDelayMs
+      if (result.error === null || attempt >= maxAttempts || !this.isRetryable(result) || waitTooLong) {
+        return { ...result, attempts: attempt }
+      }
+      await sleep(retryAfterMs ?? this.backoffDelay(attempt), options.signal)
+      if (options.signal?.aborted) {
+        return { ...abortedFailure(), attempts: attempt }
+      }
+    }
+  }
+
+  private async attempt<T>(
+    method: string,
+    path: string,
+    body: unknown,
+    headers: Headers,
+    attempt: number,
+    options: RequestOptions,
+    schema: Schema<T> | undefined
+  ): Promise<{ result: Result<T, SurpayError>; retryAfterMs: number | null }> {
+    const context: RequestContext = {
+      method,
+      path,
+      url: `${this.baseUrl}${path}`,
+      headers: Object.fromEntries(headers),
+      body,
+      attempt,
+      startedAt: Date.now(),
+    }
+
+    for (const middleware of this.middleware) {
+      const shortCircuit = await middleware.onRequest?.(context)
+      if (shortCircuit) return { result: shortCircuit as Result<T, SurpayError>, retryAfterMs: null }
+    }
+
+    if (options.signal?.aborted) {
+      return { result: abortedFailure(), retryAfterMs: null }
+    }
+
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs
+    // Node's AbortSignal.timeout() only accepts whole milliseconds
+    const timeout = AbortSignal.timeout(Math.ceil(timeoutMs))
+    const validateWith = this.strict ? schema : undefined
+    let response: Response
+    let result: Result<unknown, SurpayError>
     try {
-      const response = await fetch(`${this.baseUrl}${path}`, {
+      response = await this.fetchImpl(context.url, {
         method,
-        headers: this.headers,
-        body: body !== undefined ? JSON.stringify(body) : undefined,
-        signal: AbortSignal.timeout(this.timeoutMs),
+        headers: context.headers,
+        body: context.body !== undefined ? JSON.stringify(context.body) : undefined,
+        signal: options.signal ? AbortSignal.any([options.signal, timeout]) : timeout,
       })
-      return toResult<T>(response, this.resultOptions)
+      // The signals also cover reading the body, so an abort or timeout there is mapped like one during fetch
+      result = await toResult<T>(response, this.resultOptions, validateWith)
     } catch (error) {
-      return this.handleFetchError<T>(error)
+      context.durationMs = Date.now() - context.startedAt
+      let failure: Failure<SurpayError> = options.signal?.aborted
+        ? abortedFailure()
+        : this.handleFetchError(error, timeoutMs)
+      for (const middleware of this.reversedMiddleware()) {
+        const replaced = await middleware.onError?.(context, failure, error)
+        // A successful replacement recovers from the error, so later hooks have nothing left to handle
+        if (replaced?.error === null) return { result: replaced as Result<T, SurpayError>, retryAfterMs: null }
+        if (replaced) failure = replaced
+      }
+      return { result: failure as Result<T, SurpayError>, retryAfterMs: null }
+    }
+
+    const retryAfterMs =
+      response.status === 429 || response.status === 503 ? parseRetryAfter(response.headers.get('Retry-After')) : null
+    context.durationMs = Date.now() - context.startedAt
+    for (const middleware of this.reversedMiddleware()) {
+      result = (await middleware.onResponse?.(context, result, response)) || result
     }
+    return { result: result as Result<T, SurpayError>, retryAfterMs }
+  }
+
+  private reversedMiddleware(): SurpayMiddleware[] {
+    return [...this.middleware].reverse()
+  }
+
+  private isRetryable(result: Result<unknown, SurpayError>): boolean {
+    if (!result.error) return false
+    return (
+      this.retry.retryableStatusCodes.includes(result.statusCode) ||
+      this.retry.retryableErrorCodes.includes(result.error.code)
+    )
+  }
+
+  /** Exponential backoff: baseDelayMs * 2^(attempt - 1), capped at maxDelayMs, with optional full jitter. */
+  private backoffDelay(attempt: number): number {
+    const delay = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** (attempt - 1))
+    return this.retry.jitter ? Math.random() * delay : delay
   }
 
-  private handleFetchError<T>(error: unknown): Result<T, SurpayError> {
+  private handleFetchError(error: unknown, timeoutMs: number): Failure<SurpayError> {
     // Timeout errors from AbortSignal.timeout()
     if (error instanceof DOMException && error.name === 'TimeoutError') {
       return {
         data: null,
-        error: new SurpayError({
-          message: `Request timed out after ${this.timeoutMs}ms`,
+        error: new SurpayNetworkError({
+          message: `Request timed out after ${timeoutMs}ms`,
           code: 'timeout_error',
           statusCode: 0,
+          cause: error,
         }),
         statusCode: 0,
       }
@@ -90,10 +261,11 @@ export class SurpayClient {
     const message = error instanceof Error ? error.message : 'Network request failed'
     return {
       data: null,
-      error: new SurpayError({
+      error: new SurpayNetworkError({
         message,
         code: 'network_error',
         statusCode: 0,
+        cause: error,
       }),
       statusCode: 0,
     }
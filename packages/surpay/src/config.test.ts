@@ -0,0 +1,101 @@
+import { describe, test, expect, afterEach } from 'bun:test'
+import { resolveConfig } from './config.js'
+import { isSurpayError } from './errors.js'
+import type { SurpayConfig } from './types.js'
+
+const ENV_VARS = ['SURPAY_API_KEY', 'SURPAY_BASE_URL', 'SURPAY_TIMEOUT_MS', 'SURPAY_MAX_ATTEMPTS']
+const originalEnv = Object.fromEntries(ENV_VARS.map((name) => [name, process.env[name]]))
+
+afterEach(() => {
+  for (const name of ENV_VARS) {
+    if (originalEnv[name] === undefined) delete process.env[name]
+    else process.env[name] = originalEnv[name]
+  }
+})
+
+/** Returns the message of the `invalid_config` error thrown for these options. */
+const configError = (options: unknown): string => {
+  try {
+    resolveConfig(options as SurpayConfig)
+  } catch (error) {
+    if (isSurpayError(error) && error.code === 'invalid_config') return error.message
+    throw error
+  }
+  throw new Error('Expected resolveConfig to throw')
+}
+
+describe('resolveConfig', () => {
+  test('passes explicit options through', () => {
+    const config = resolveConfig({
+      apiKey: 'key',
+      baseUrl: 'https://pay.example.com/',
+      timeoutMs: 5000,
+      retry: { maxAttempts: 2 },
+      userAgent: 'my-app/1.0',
+      cache: true,
+    })
+
+    expect(config).toMatchObject({
+      apiKey: 'key',
+      baseUrl: 'https://pay.example.com',
+      timeoutMs: 5000,
+      retry: { maxAttempts: 2 },
+      userAgent: 'my-app/1.0',
+      cache: {},
+    })
+  })
+
+  test('falls back to env vars', () => {
+    process.env.SURPAY_API_KEY = 'env_key'
+    process.env.SURPAY_BASE_URL = 'http://localhost:8090'
+    process.env.SURPAY_TIMEOUT_MS = '1500'
+    process.env.SURPAY_MAX_ATTEMPTS = '4'
+
+    const config = resolveConfig({ retry: { baseDelayMs: 100 } })
+
+    expect(config).toMatchObject({
+      apiKey: 'env_key',
+      baseUrl: 'http://localhost:8090',
+      timeoutMs: 1500,
+      retry: { baseDelayMs: 100, maxAttempts: 4 },
+      cache: null,
+    })
+  })
+
+  test('explicit options win over env vars', () => {
+    process.env.SURPAY_TIMEOUT_MS = '1500'
+    process.env.SURPAY_MAX_ATTEMPTS = 'not a number'
+
+    const config = resolveConfig({ apiKey: 'key', timeoutMs: 200, retry: { maxAttempts: 1 } })
+
+    expect(config.timeoutMs).toBe(200)
+    expect(config.retry?.maxAttempts).toBe(1)
+  })
+
+  test('requires an API key', () => {
+    delete process.env.SURPAY_API_KEY
+
+    expect(configError({})).toContain('apiKey is required')
+  })
+
+  test.each([
+    [{ timeoutMs: 0 }, 'timeoutMs must be a number greater than 0 (got 0)'],
+    [{ baseUrl: 'localhost:8090' }, 'baseUrl must be an absolute http(s) URL'],
+    [{ retry: { maxAttempts: 1.5 } }, 'retry.maxAttempts must be an integer of at least 1 (got 1.5)'],
+    [{ retry: { retryableStatusCodes: ['500'] } }, 'retry.retryableStatusCodes must be an array'],
+    [{ responseCase: 'kebab' }, 'responseCase must be one of: camel, snake (got "kebab")'],
+    [{ cache: { maxSize: 0 } }, 'cache.maxSize must be an integer of at least 1 (got 0)'],
+    [{ fetch: 'fetch' }, 'fetch must be a function'],
+    [{ middleware: [{ onRequest: true }] }, 'middleware[0].onRequest must be a function (got true)'],
+  ])('names the invalid option %p', (options, message) => {
+    expect(configError({ apiKey: 'key', ...options })).toContain(message)
+  })
+
+  test('names the invalid env var', () => {
+    process.env.SURPAY_TIMEOUT_MS = 'soon'
+
+    expect(configError({ apiKey: 'key' })).toBe(
+      'Invalid Surpay config: SURPAY_TIMEOUT_MS env var must be a number (got "soon")'
+    )
+  })
+})
@@ -0,0 +1,187 @@
+/**
+ * Resolution and validation of the public `SurpayConfig`.
+ *
+ * Explicit options win over environment variables, which win over defaults. Invalid values throw an
+ * `invalid_config` SurpayError from the constructor naming the offending option, instead of surfacing
+ * as a confusing failure on the first request.
+ */
+
+import type { SurpayClientOptions } from './client.js'
+import { SurpayError } from './errors.js'
+import type { CacheOptions, SurpayConfig } from './types.js'
+
+export interface ResolvedConfig extends SurpayClientOptions {
+  cache: CacheOptions | null
+}
+
+const ENV_API_KEY = 'SURPAY_API_KEY'
+const ENV_BASE_URL = 'SURPAY_BASE_URL'
+const ENV_TIMEOUT_MS = 'SURPAY_TIMEOUT_MS'
+const ENV_MAX_ATTEMPTS = 'SURPAY_MAX_ATTEMPTS'
+
+const RESPONSE_CASES = ['camel', 'snake']
+const MIDDLEWARE_HOOKS = ['onRequest', 'onResponse', 'onError']
+
+const readEnv = (name: string): string | undefined =>
+  (typeof process !== 'undefined' && process.env?.[name]) || undefined
+
+const invalidConfig = (option: string, problem: string) =>
+  new SurpayError({ message: `Invalid Surpay config: ${option} ${problem}`, code: 'invalid_config', statusCode: 0 })
+
+const formatValue = (value: unknown) => (typeof value === 'string' ? `"${value}"` : String(value))
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const checkNumber = (option: string, value: unknown, { integer = false, min = 0, exclusive = false } = {}) => {
+  if (value === undefined) return
+  const valid =
+    typeof value === 'number' &&
+    Number.isFinite(value) &&
+    (!integer || Number.isInteger(value)) &&
+    (exclusive ? value > min : value >= min)
+  if (!valid) {
+    const kind = integer ? 'an integer' : 'a number'
+    const bound = exclusive ? 'greater than' : 'of at least'
+    throw invalidConfig(option, `must be ${kind} ${bound} ${min} (got ${formatValue(value)})`)
+  }
+}
+
+const checkType = (option: string, value: unknown, type: 'boolean' | 'string' | 'function') => {
+  if (value !== undefined && typeof value !== type) {
+    throw invalidConfig(option, `must be a ${type} (got ${formatValue(value)})`)
+  }
+}
+
+/** Parses a numeric env var, reporting the variable name when it is not a number. */
+const numberFromEnv = (name: string): number | undefined => {
+  const raw = readEnv(name)
+  if (raw === undefined) return undefined
+  const value = Number(raw)
+  if (raw.trim() === '' || Number.isNaN(value)) {
+    throw invalidConfig(`${name} env var`, `must be a number (got "${raw}")`)
+  }
+  return value
+}
+
+const resolveBaseUrl = (options: SurpayConfig): string | undefined => {
+  const [option, value] =
+    options.baseUrl !== undefined ? ['baseUrl', options.baseUrl] : [`${ENV_BASE_URL} env var`, readEnv(ENV_BASE_URL)]
+  if (value === undefined) return undefined
+
+  let url: URL | null = null
+  try {
+    url = typeof value === 'string' ? new URL(value) : null
+  } catch {
+    // Reported below
+  }
+  if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+    throw invalidConfig(option, `must be an absolute http(s) URL (got ${formatValue(value)})`)
+  }
+  return value.replace(/\/+$/, '')
+}
+
+const resolveCache = (cache: unknown): CacheOptions | null => {
+  if (cache === undefined || cache === false) return null
+  if (cache === true) return {}
+  if (!isPlainObject(cache)) {
+    throw invalidConfig('cache', `must be a boolean or an options object (got ${formatValue(cache)})`)
+  }
+  checkNumber('cache.ttlMs', cache.ttlMs, { exclusive: true })
+  checkNumber('cache.productsTtlMs', cache.productsTtlMs, { exclusive: true })
+  checkNumber('cache.maxSize', cache.maxSize, { integer: true, min: 1 })
+  return cache
+}
+
+const checkRetry = (retry: unknown) => {
+  if (retry === undefined) return
+  if (!isPlainObject(retry)) {
+    throw invalidConfig('retry', `must be an options object (got ${formatValue(retry)})`)
+  }
+  checkNumber('retry.maxAttempts', retry.maxAttempts, { integer: true, min: 1 })
+  checkNumber('retry.baseDelayMs', retry.baseDelayMs)
+  checkNumber('retry.maxDelayMs', retry.maxDelayMs)
+  checkType('retry.jitter', retry.jitter, 'boolean')
+
+  const { retryableStatusCodes, retryableErrorCodes } = retry
+  if (
+    retryableStatusCodes !== undefined &&
+    !(Array.isArray(retryableStatusCodes) && retryableStatusCodes.every(Number.isInteger))
+  ) {
+    throw invalidConfig('retry.retryableStatusCodes', 'must be an array of HTTP status codes')
+  }
+  if (
+    retryableErrorCodes !== undefined &&
+    !(Array.isArray(retryableErrorCodes) && retryableErrorCodes.every((code) => typeof code === 'string'))
+  ) {
+    throw invalidConfig('retry.retryableErrorCodes', 'must be an array of error code strings')
+  }
+}
+
+const checkMiddleware = (middleware: unknown) => {
+  if (middleware === undefined) return
+  if (!Array.isArray(middleware)) {
+    throw invalidConfig('middleware', 'must be an array')
+  }
+  middleware.forEach((entry: unknown, index) => {
+    if (!isPlainObject(entry)) {
+      throw invalidConfig(`middleware[${index}]`, `must be an object (got ${formatValue(entry)})`)
+    }
+    for (const hook of MIDDLEWARE_HOOKS) {
+      checkType(`middleware[${index}].${hook}`, entry[hook], 'function')
+    }
+  })
+}
+
+/**
+ * Merges explicit options, environment variables and defaults, and validates the result.
+ * @throws {SurpayError} with code `invalid_config` naming the first invalid option
+ */
+export const resolveConfig = (options: SurpayConfig = {}): ResolvedConfig => {
+  // Checked as unknown so plain JavaScript callers get a helpful error, without narrowing `options`
+  if (!isPlainObject(options as unknown)) {
+    throw invalidConfig('options', `must be an object (got ${formatValue(options)})`)
+  }
+
+  const apiKey = options.apiKey || readEnv(ENV_API_KEY)
+  if (!apiKey) {
+    throw invalidConfig('apiKey', `is required. Pass it via options or set the ${ENV_API_KEY} env var.`)
+  }
+  checkType('apiKey', apiKey, 'string')
+
+  const timeoutMs = options.timeoutMs ?? numberFromEnv(ENV_TIMEOUT_MS)
+  checkNumber(options.timeoutMs !== undefined ? 'timeoutMs' : `${ENV_TIMEOUT_MS} env var`, timeoutMs, {
+    exclusive: true,
+  })
+
+  checkRetry(options.retry)
+  const maxAttempts = options.retry?.maxAttempts ?? numberFromEnv(ENV_MAX_ATTEMPTS)
+  checkNumber(`${ENV_MAX_ATTEMPTS} env var`, maxAttempts, { integer: true, min: 1 })
+
+  if (options.responseCase !== undefined && !RESPONSE_CASES.includes(options.responseCase)) {
+    const got = formatValue(options.responseCase)
+    throw invalidConfig('responseCase', `must be one of: ${RESPONSE_CASES.join(', ')} (got ${got})`)
+  }
+  checkType('autoIdempotencyKeys', options.autoIdempotencyKeys, 'boolean')
+  checkType('userAgent', options.userAgent, 'string')
+  checkType('strict', options.strict, 'boolean')
+  checkType('fetch', options.fetch, 'function')
+  if (options.fetch === undefined && typeof globalThis.fetch !== 'function') {
+    throw invalidConfig('fetch', 'is required in runtimes without a global fetch')
+  }
+  checkMiddleware(options.middleware)
+
+  return {
+    apiKey,
+    baseUrl: resolveBaseUrl(options),
+    responseCase: options.responseCase,
+    timeoutMs,
+    retry: maxAttempts !== undefined ? { ...options.retry, maxAttempts } : options.retry,
+    autoIdempotencyKeys: options.autoIdempotencyKeys,
+    userAgent: options.userAgent,
+    strict: options.strict,
+    fetch: options.fetch,
+    middleware: options.middleware,
+    cache: resolveCache(options.cache),
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, test, expect } from 'bun:test'
+import {
+  SurpayAuthError,
+  SurpayError,
+  SurpayNetworkError,
+  SurpayRateLimitError,
+  SurpayValidationError,
+  createSurpayError,
+  isSurpayError,
+} from './errors.js'
+
+describe('createSurpayError', () => {
+  test.each([
+    [{ code: 'unauthorized', statusCode: 401 }, SurpayAuthError],
+    [{ code: 'forbidden', statusCode: 403 }, SurpayAuthError],
+    [{ code: 'rate_limit_exceeded', statusCode: 429 }, SurpayRateLimitError],
+    [{ code: 'validation_error', statusCode: 422 }, SurpayValidationError],
+    [{ code: 'validation_error', statusCode: 400 }, SurpayValidationError],
+    [{ code: 'network_error', statusCode: 0 }, SurpayNetworkError],
+    [{ code: 'timeout_error', statusCode: 0 }, SurpayNetworkError],
+    [{ code: 'not_found', statusCode: 404 }, SurpayError],
+  ])('%p becomes the matching class', (options, expected) => {
+    const error = createSurpayError({ message: 'boom', ...options })
+
+    expect(error).toBeInstanceOf(expected)
+    expect(error.name).toBe(expected.name)
+    expect(isSurpayError(error)).toBe(true)
+  })
+
+  test('carries rate limit and validation payloads', () => {
+    const rateLimited = createSurpayError({ message: 'slow down', code: 'x', statusCode: 429, retryAfter: 2 })
+    const invalid = createSurpayError({
+      message: 'bad input',
+      code: 'validation_error',
+      fieldErrors: [{ field: 'email', message: 'must be an email' }],
+    })
+
+    expect((rateLimited as SurpayRateLimitError).retryAfter).toBe(2)
+    expect((invalid as SurpayValidationError).fieldErrors).toEqual([{ field: 'email', message: 'must be an email' }])
+  })
+})
+
+describe('SurpayError', () => {
+  test('keeps the cause and request ID', () => {
+    const cause = new TypeError('fetch failed')
+    const error = new SurpayNetworkError({ message: 'fetch failed', code: 'network_error', statusCode: 0, cause })
+
+    expect(error.cause).toBe(cause)
+    expect(error.requestId).toBeNull()
+  })
+
+  test('toString includes the request ID when present', () => {
+    const error = new SurpayError({ message: 'gone', code: 'not_found', statusCode: 404, requestId: 'req_1' })
+
+    expect(error.toString()).toBe('SurpayError: gone (code: not_found, status: 404, request: req_1)')
+  })
+
+  test('serializes to JSON with its message and subclass fields', () => {
+    const error = new SurpayValidationError({
+      message: 'bad input',
+      code: 'validation_error',
+      statusCode: 422,
+      fieldErrors: [{ field: 'email', message: 'must be an email' }],
+    })
+
+    expect(JSON.parse(JSON.stringify(error))).toMatchObject({
+      name: 'SurpayValidationError',
+      message: 'bad input',
+      code: 'validation_error',
+      statusCode: 422,
+      fieldErrors: [{ field: 'email', message: 'must be an email' }],
+    })
+  })
+})
@@ -2,28 +2,107 @@
  * Surpay SDK Error Types
  *
  * Follows the Autumn pattern: structured errors with code, message, statusCode.
+ * Failures are returned as a SurpayError subclass where one applies, so callers can branch with
+ * `instanceof` (e.g. `SurpayRateLimitError`) or on `code`.
  */
 
+/** A single invalid field reported by the API or by client-side validation. */
+export interface FieldError {
+  /** Dot-separated path of the field, e.g. `'metadata.orderId'` */
+  field: string
+  message: string
+  code?: string
+}
+
+export interface SurpayErrorOptions {
+  message: string
+  code: string
+  statusCode?: number
+  /** Value of the `X-Request-Id` response header; quote it when contacting support */
+  requestId?: string | null
+  /** Extra error payload from the API, passed through as-is */
+  details?: unknown
+  fieldErrors?: FieldError[]
+  /** Seconds to wait before retrying, from the `Retry-After` header */
+  retryAfter?: number | null
+  /** Underlying error, e.g. the exception thrown by `fetch` */
+  cause?: unknown
+}
+
 export class SurpayError extends Error {
   readonly code: string
   readonly statusCode: number
+  readonly requestId: string | null
+  readonly details: unknown
 
-  constructor({ message, code, statusCode = 400 }: { message: string; code: string; statusCode?: number }) {
-    super(message)
+  constructor({ message, code, statusCode = 400, requestId = null, details, cause }: SurpayErrorOptions) {
+    super(message, cause === undefined ? undefined : { cause })
     this.name = 'SurpayError'
     this.code = code
     this.statusCode = statusCode
+    this.requestId = requestId
+    this.details = details
 
     if (Error.captureStackTrace) {
-      Error.captureStackTrace(this, SurpayError)
+      Error.captureStackTrace(this, new.target)
     }
   }
 
+  /** Includes `message`, which `JSON.stringify` would otherwise drop since it is not an own enumerable property. */
+  toJSON(): object {
+    return { ...this, name: this.name, message: this.message }
+  }
+
   toString(): string {
-    return `SurpayError: ${this.message} (code: ${this.code}, status: ${this.statusCode})`
+    const requestId = this.requestId ? `, request: ${this.requestId}` : ''
+    return `${this.name}: ${this.message} (code: ${this.code}, status: ${this.statusCode}${requestId})`
   }
 }
 
+/** The API key is missing, invalid, or not allowed to perform the request (401/403). */
+export class SurpayAuthError extends SurpayError {
+  name = 'SurpayAuthError'
+}
+
+/** Too many requests (429). `retryAfter` is null when the API did not say how long to wait. */
+export class SurpayRateLimitError extends SurpayError {
+  name = 'SurpayRateLimitError'
+  readonly retryAfter: number | null
+
+  constructor(options: SurpayErrorOptions) {
+    super(options)
+    this.retryAfter = options.retryAfter ?? null
+  }
+}
+
+/** The request was rejected because of invalid input, either by the API or before it was sent. */
+export class SurpayValidationError extends SurpayError {
+  name = 'SurpayValidationError'
+  readonly fieldErrors: FieldError[]
+
+  constructor(options: SurpayErrorOptions) {
+    super(options)
+    this.fieldErrors = options.fieldErrors ?? []
+  }
+}
+
+/** No response was received: connection failure, DNS error or timeout. The original error is in `cause`. */
+export class SurpayNetworkError extends SurpayError {
+  name = 'SurpayNetworkError'
+}
+
+const NETWORK_ERROR_CODES = ['network_error', 'timeout_error']
+
+/** Builds the SurpayError subclass matching the status code and error code. */
+export const createSurpayError = (options: SurpayErrorOptions): SurpayError => {
+  const { code, statusCode } = options
+  if (NETWORK_ERROR_CODES.includes(code)) return new SurpayNetworkError(options)
+  if (statusCode === 401 || statusCode === 403) return new SurpayAuthError(options)
+  if (statusCode === 429) return new SurpayRateLimitError(options)
+  if (code === 'validation_error' || statusCode === 422) return new SurpayValidationError(options)
+  return new SurpayError(options)
+}
+
 export const isSurpayError = (error: unknown): error is SurpayError => {
   return error instanceof SurpayError
 }
@@ -0,0 +1,43 @@
+import { describe, test, expect } from 'bun:test'
+import { validateSubscriptionFilters, validateTransactionFilters } from './filters.js'
+import type { SubscriptionStatus, TransactionType } from './types.js'
+
+describe('validateSubscriptionFilters', () => {
+  test('accepts known statuses', () => {
+    expect(validateSubscriptionFilters()).toBeNull()
+    expect(validateSubscriptionFilters({ status: 'active' })).toBeNull()
+    expect(validateSubscriptionFilters({ status: ['trialing', 'past_due'], customerId: 'cus_1' })).toBeNull()
+  })
+
+  test('rejects unknown statuses', () => {
+    const result = validateSubscriptionFilters({ status: ['active', 'cancelled' as SubscriptionStatus] })
+
+    expect(result?.error.code).toBe('validation_error')
+    expect(result?.error.message).toContain('"cancelled"')
+  })
+})
+
+describe('validateTransactionFilters', () => {
+  test('accepts known types and a valid date range', () => {
+    expect(
+      validateTransactionFilters({
+        type: ['payment', 'refund'],
+        createdAfter: new Date('2024-01-01'),
+        createdBefore: '2024-02-01T00:00:00Z',
+      })
+    ).toBeNull()
+  })
+
+  test('rejects unknown types', () => {
+    const result = validateTransactionFilters({ type: 'charge' as TransactionType })
+
+    expect(result?.error.code).toBe('validation_error')
+  })
+
+  test('rejects invalid dates and inverted ranges', () => {
+    expect(validateTransactionFilters({ createdAfter: 'not a date' })?.error.code).toBe('validation_error')
+    expect(
+      validateTransactionFilters({ createdAfter: '2024-02-01', createdBefore: '2024-01-01' })?.error.message
+    ).toContain('createdAfter must not be later than createdBefore')
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * Client-side validation for list filters.
+ *
+ * Invalid filters are rejected before the request is sent, so a typo in a status value
+ * fails fast instead of silently matching nothing.
+ */
+
+import type { SurpayError } from './errors.js'
+import { validationFailure } from './utils/result.js'
+import type {
+  Failure,
+  ListSubscriptionsParams,
+  ListTransactionsParams,
+  SubscriptionStatus,
+  TransactionType,
+} from './types.js'
+
+// Records keyed by the unions so adding a new member without updating these is a compile error
+export const SUBSCRIPTION_STATUSES: Record<SubscriptionStatus, true> = {
+  active: true,
+  past_due: true,
+  canceled: true,
+  unpaid: true,
+  trialing: true,
+  incomplete: true,
+  incomplete_expired: true,
+}
+
+export const TRANSACTION_TYPES: Record<TransactionType, true> = {
+  payment: true,
+  processor_fee: true,
+  refund: true,
+  dispute: true,
+  balance: true,
+  payout: true,
+}
+
+const findUnknown = (value: string | string[] | undefined, allowed: Record<string, true>): string | undefined => {
+  if (value === undefined) return undefined
+  const values = Array.isArray(value) ? value : [value]
+  return values.find((v) => !Object.hasOwn(allowed, v))
+}
+
+const toTime = (value: Date | string): number => (value instanceof Date ? value.getTime() : Date.parse(value))
+
+/** Returns a `validation_error` Failure for invalid subscription filters, or null when they are valid. */
+export const validateSubscriptionFilters = (params: ListSubscriptionsParams = {}): Failure<SurpayError> | null => {
+  const unknownStatus = findUnknown(params.status, SUBSCRIPTION_STATUSES)
+  if (unknownStatus !== undefined) {
+    return validationFailure(
+      `Unknown subscription status "${unknownStatus}". Expected one of: ${Object.keys(SUBSCRIPTION_STATUSES).join(', ')}`
+    )
+  }
+  return null
+}
+
+/** Returns a `validation_error` Failure for invalid transaction filters, or null when they are valid. */
+export const validateTransactionFilters = (params: ListTransactionsParams = {}): Failure<SurpayError> | null => {
+  const unknownType = findUnknown(params.type, TRANSACTION_TYPES)
+  if (unknownType !== undefined) {
+    return validationFailure(
+      `Unknown transaction type "${unknownType}". Expected one of: ${Object.keys(TRANSACTION_TYPES).join(', ')}`
+    )
+  }
+
+  const after = params.createdAfter !== undefined ? toTime(params.createdAfter) : undefined
+  const before = params.createdBefore !== undefined ? toTime(params.createdBefore) : undefined
+  if (after !== undefined && Number.isNaN(after)) {
+    return validationFailure('createdAfter is not a valid date')
+  }
+  if (before !== undefined && Number.isNaN(before)) {
+    return validationFailure('createdBefore is not a valid date')
+  }
+  if (after !== undefined && before !== undefined && after > before) {
+    return validationFailure('createdAfter must not be later than createdBefore')
+  }
+
+  return null
+}
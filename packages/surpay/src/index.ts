@@ -30,7 +30,21 @@
 export { Surpay } from './surpay.js'
 
 // Error handling
-export { SurpayError, isSurpayError } from './errors.js'
+export {
+  SurpayError,
+  SurpayAuthError,
+  SurpayRateLimitError,
+  SurpayValidationError,
+  SurpayNetworkError,
+  isSurpayError,
+} from './errors.js'
+export type { FieldError, SurpayErrorOptions } from './errors.js'
+
+// Pagination
+export { autoPaginate } from './pagination.js'
+
+// Webhooks
+export { Webhooks, signWebhookPayload, WEBHOOK_SIGNATURE_HEADER } from './webhooks.js'
 
 // Utilities
 /** @deprecated No longer used by default. Kept for backwards compatibility. */
@@ -43,13 +57,24 @@ export type {
   Success,
   Failure,
 
+  // Pagination
+  PaginationParams,
+  Page,
+
   // Config
   SurpayConfig,
   ResponseCase,
+  RequestOptions,
+  RetryOptions,
+  CacheOptions,
+  FetchFunction,
+  SurpayMiddleware,
+  RequestContext,
 
   // Enums
   SubscriptionStatus,
   RecurringInterval,
+  ProrationBehavior,
   TransactionType,
   CheckoutStatus,
   CheckoutMode,
@@ -61,11 +86,15 @@ export type {
   // Customer
   Customer,
   CustomerWithDetails,
+  CreateCustomerRequest,
+  UpdateCustomerRequest,
+  UpsertCustomerRequest,
   TransactionSummary,
   SubscriptionSummary,
 
   // Product
   Product,
+  ProductFeature,
   CreateProductRequest,
   CreateProductResponse,
   UpdateProductRequest,
@@ -76,23 +105,64 @@ export type {
   ProductPrice,
   CreatePriceRequest,
   CreatePriceResponse,
+  ListPricesParams,
+  UpdatePriceRequest,
+
+  // Catalog
+  CatalogDefinition,
+  CatalogProductDefinition,
+  CatalogPriceDefinition,
+  SyncCatalogOptions,
+  CatalogAction,
+  CatalogChangeStatus,
+  CatalogChange,
+  CatalogSyncResult,
 
   // Checkout
   CreateCheckoutRequest,
   CreateCheckoutResponse,
+  CheckoutSession,
+  WaitForCheckoutOptions,
+
+  // Customer Portal
+  CreatePortalSessionRequest,
+  PortalSession,
 
   // Check
   CheckRequest,
   CheckResponse,
 
+  // Entitlements
+  Entitlement,
+
+  // Usage
+  RecordUsageRequest,
+  UsageRecord,
+  UsageSummary,
+  FeatureUsage,
+
   // Transaction
   Transaction,
+  ListTransactionsParams,
+  RefundTransactionRequest,
 
   // Subscription
   Subscription,
+  ListSubscriptionsParams,
+  CancelSubscriptionRequest,
+  ChangeSubscriptionPriceRequest,
 
   // Accounts
   ConnectAccountRequest,
   ConnectAccountResponse,
   ConnectedAccount,
+
+  // Webhooks
+  WebhookEventType,
+  WebhookEvent,
+  CheckoutCompletedEvent,
+  SubscriptionStatusChangedEvent,
+  TransactionSucceededEvent,
+  TransactionRefundedEvent,
+  ConstructEventOptions,
 } from './types.js'
@@ -0,0 +1,62 @@
+import { describe, test, expect } from 'bun:test'
+import { autoPaginate, toPage } from './pagination.js'
+import { SurpayError } from './errors.js'
+import type { Page, PaginationParams, Result } from './types.js'
+
+const pages: Record<string, Page<number>> = {
+  start: { data: [1, 2], hasMore: true, nextCursor: 'c2' },
+  c2: { data: [3, 4], hasMore: true, nextCursor: 'c4' },
+  c4: { data: [5], hasMore: false, nextCursor: null },
+}
+
+describe('toPage', () => {
+  test('wraps a bare array as a single final page', () => {
+    expect(toPage([1, 2])).toEqual({ data: [1, 2], hasMore: false, nextCursor: null })
+  })
+
+  test('passes through a page envelope', () => {
+    expect(toPage(pages.start!)).toEqual(pages.start!)
+  })
+})
+
+describe('autoPaginate', () => {
+  test('yields every item across pages, fetching lazily', async () => {
+    const requested: PaginationParams[] = []
+    const listPage = async (params: PaginationParams): Promise<Result<Page<number>, SurpayError>> => {
+      requested.push(params)
+      return { data: pages[params.startingAfter ?? 'start']!, error: null, statusCode: 200 }
+    }
+
+    const items: number[] = []
+    for await (const item of autoPaginate(listPage, { limit: 2 })) {
+      items.push(item)
+      if (item === 2) expect(requested).toHaveLength(1)
+    }
+
+    expect(items).toEqual([1, 2, 3, 4, 5])
+    expect(requested).toEqual([
+      { limit: 2, startingAfter: undefined },
+      { limit: 2, startingAfter: 'c2' },
+      { limit: 2, startingAfter: 'c4' },
+    ])
+  })
+
+  test('throws the first SurpayError and stops', async () => {
+    const failure = new SurpayError({ message: 'boom', code: 'internal_error', statusCode: 500 })
+    let calls = 0
+    const listPage = async (params: PaginationParams): Promise<Result<Page<number>, SurpayError>> => {
+      calls++
+      if (params.startingAfter === 'c2') return { data: null, error: failure, statusCode: 500 }
+      return { data: pages.start!, error: null, statusCode: 200 }
+    }
+
+    const items: number[] = []
+    const iterate = async () => {
+      for await (const item of autoPaginate(listPage)) items.push(item)
+    }
+
+    await expect(iterate()).rejects.toBe(failure)
+    expect(items).toEqual([1, 2])
+    expect(calls).toBe(2)
+  })
+})
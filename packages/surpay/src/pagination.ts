@@ -0,0 +1,44 @@
+/**
+ * Cursor pagination helpers for list endpoints.
+ */
+
+import type { SurpayError } from './errors.js'
+import type { Page, PaginationParams, Result } from './types.js'
+
+/**
+ * Normalizes a list response into a page envelope.
+ * Older API versions return a bare array, which is treated as a single, final page.
+ */
+export const toPage = <T>(data: T[] | Page<T>): Page<T> => {
+  if (Array.isArray(data)) {
+    return { data, hasMore: false, nextCursor: null }
+  }
+  return { data: data.data ?? [], hasMore: data.hasMore ?? false, nextCursor: data.nextCursor ?? null }
+}
+
+/**
+ * Iterates over every item of a paginated list, fetching pages lazily as the loop advances.
+ *
+ * Iteration stops by throwing the first `SurpayError` returned by a page request.
+ *
+ * @example
+ * for await (const customer of autoPaginate(surpay.customers.list, { limit: 100 })) {
+ *   console.log(customer.email)
+ * }
+ */
+export async function* autoPaginate<T, P extends PaginationParams>(
+  listPage: (params: P) => Promise<Result<Page<T>, SurpayError>>,
+  params: P = {} as P
+): AsyncIterable<T> {
+  let startingAfter = params.startingAfter
+
+  while (true) {
+    const { data: page, error } = await listPage({ ...params, startingAfter })
+    if (error) throw error
+
+    yield* page.data
+
+    if (!page.hasMore || !page.nextCursor) return
+    startingAfter = page.nextCursor
+  }
+}
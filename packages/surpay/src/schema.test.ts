@@ -0,0 +1,55 @@
+import { describe, test, expect } from 'bun:test'
+import * as s from './schema.js'
+
+interface Item {
+  id: string
+  amount: number
+  note?: string | null
+  tags: string[]
+}
+
+const item = s.object<Item>({
+  id: s.string(),
+  amount: s.number(),
+  note: s.maybe(s.string()),
+  tags: s.array(s.string()),
+})
+
+describe('schema', () => {
+  test('accepts matching values and ignores extra fields', () => {
+    expect(s.validate(item, { id: 'i_1', amount: 5, tags: [], extra: true })).toBeNull()
+    expect(s.validate(item, { id: 'i_1', amount: 5, note: null, tags: ['a'] })).toBeNull()
+  })
+
+  test('reports the path of the first mismatch', () => {
+    const items = [
+      { id: 'i_1', amount: 5, tags: [] },
+      { id: 'i_2', amount: '5', tags: [] },
+    ]
+
+    expect(s.validate(s.array(item), items)).toEqual({ path: '$[1].amount', message: 'expected number, got string' })
+    expect(s.validate(item, { id: 'i_1', amount: 5, tags: ['a', 1] })?.path).toBe('$.tags[1]')
+  })
+
+  test('reports missing required fields', () => {
+    expect(s.validate(item, { amount: 5, tags: [] })).toEqual({
+      path: '$.id',
+      message: 'expected string, got undefined',
+    })
+  })
+
+  test('oneOf lists the allowed values', () => {
+    const color = s.oneOf<'red' | 'blue'>({ red: true, blue: true })
+
+    expect(s.validate(color, 'red')).toBeNull()
+    expect(s.validate(color, 'green')?.message).toBe('expected one of red, blue, got string')
+  })
+
+  test('union reports the issue of the second schema', () => {
+    const idOrList = s.union(s.string(), s.array(s.string()))
+
+    expect(s.validate(idOrList, 'a')).toBeNull()
+    expect(s.validate(idOrList, ['a'])).toBeNull()
+    expect(s.validate(idOrList, 1)).toEqual({ path: '$', message: 'expected array, got number' })
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * Minimal runtime schemas for validating API responses in strict mode.
+ *
+ * `Schema<T>` is invariant in `T`, and `object<T>()` requires a schema for every key of `T`,
+ * so a schema that drifts from its interface in `types.ts` fails to compile.
+ */
+
+export interface SchemaIssue {
+  /** Location of the offending value, e.g. `$.prices[0].priceAmount` */
+  path: string
+  message: string
+}
+
+export interface Schema<T> {
+  /** Returns the first mismatch found, or null when `value` matches. */
+  readonly check: (value: unknown, path: string) => SchemaIssue | null
+  /** Type-level marker only; makes `Schema<T>` invariant in `T`. */
+  readonly _type?: (value: T) => T
+}
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> }
+
+export interface ObjectSchema<T> extends Schema<T> {
+  /** Field schemas, for building the schema of an extending interface */
+  readonly shape: Shape<T>
+}
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+const expected = (path: string, what: string, value: unknown): SchemaIssue => ({
+  path,
+  message: `expected ${what}, got ${describeValue(value)}`,
+})
+
+const primitive = <T>(type: 'string' | 'number' | 'boolean'): Schema<T> => ({
+  check: (value, path) => (typeof value === type ? null : expected(path, type, value)),
+})
+
+export const string = (): Schema<string> => primitive('string')
+export const number = (): Schema<number> => primitive('number')
+export const boolean = (): Schema<boolean> => primitive('boolean')
+
+/** Accepts anything, for fields typed `unknown`. */
+export const unknown = (): Schema<unknown> => ({ check: () => null })
+
+/** One of a fixed set of strings. Takes a `Record<T, true>` so a missing union member is a compile error. */
+export const oneOf = <T extends string>(values: Record<T, true>): Schema<T> => ({
+  check: (value, path) =>
+    typeof value === 'string' && Object.hasOwn(values, value)
+      ? null
+      : expected(path, `one of ${Object.keys(values).join(', ')}`, value),
+})
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  check: (value, path) => (value === null ? null : schema.check(value, path)),
+})
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  check: (value, path) => (value === undefined ? null : schema.check(value, path)),
+})
+
+/** Shorthand for the common `field?: T | null` */
+export const maybe = <T>(schema: Schema<T>): Schema<T | null | undefined> => optional(nullable(schema))
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  check: (value, path) => {
+    if (!Array.isArray(value)) return expected(path, 'array', value)
+    for (const [index, entry] of value.entries()) {
+      const issue = item.check(entry, `${path}[${index}]`)
+      if (issue) return issue
+    }
+    return null
+  },
+})
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+export const record = <T>(entry: Schema<T>): Schema<Record<string, T>> => ({
+  check: (value, path) => {
+    if (!isObject(value)) return expected(path, 'object', value)
+    for (const [key, field] of Object.entries(value)) {
+      const issue = entry.check(field, `${path}.${key}`)
+      if (issue) return issue
+    }
+    return null
+  },
+})
+
+/** Checks the listed fields only; extra fields the API adds later are allowed. */
+export const object = <T>(shape: Shape<T>): ObjectSchema<T> => ({
+  shape,
+  check: (value, path) => {
+    if (!isObject(value)) return expected(path, 'object', value)
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      const issue = shape[key].check(value[key], `${path}.${key}`)
+      if (issue) return issue
+    }
+    return null
+  },
+})
+
+/** Matches either schema. Reports the issue of the second one, which should be the preferred shape. */
+export const union = <A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> => ({
+  check: (value, path) => (first.check(value, path) === null ? null : second.check(value, path)),
+})
+
+/** Validates `value` from the root path `$`. */
+export const validate = <T>(schema: Schema<T>, value: unknown): SchemaIssue | null => schema.check(value, '$')
@@ -0,0 +1,265 @@
+/**
+ * Runtime schemas for API responses, mirroring the interfaces in `types.ts`.
+ * Only used when the client is created with `strict: true`.
+ */
+
+import { SUBSCRIPTION_STATUSES, TRANSACTION_TYPES } from './filters.js'
+import * as s from './schema.js'
+import type {
+  CheckoutMode,
+  CheckoutSession,
+  CheckoutStatus,
+  CheckResponse,
+  ConnectAccountResponse,
+  ConnectedAccount,
+  CreateCheckoutResponse,
+  CreatePriceResponse,
+  CreateProductResponse,
+  Customer,
+  CustomerWithDetails,
+  Entitlement,
+  FeatureUsage,
+  Page,
+  PortalSession,
+  Product,
+  ProductFeature,
+  ProductPrice,
+  ProductWithPrices,
+  Project,
+  RecurringInterval,
+  Subscription,
+  SubscriptionSummary,
+  Transaction,
+  TransactionSummary,
+  UpdateProductResponse,
+  UsageRecord,
+  UsageSummary,
+} from './types.js'
+
+const RECURRING_INTERVALS: Record<RecurringInterval, true> = { day: true, week: true, month: true, year: true }
+const CHECKOUT_STATUSES: Record<CheckoutStatus, true> = {
+  creating: true,
+  open: true,
+  completed: true,
+  failed: true,
+  expired: true,
+}
+const CHECKOUT_MODES: Record<CheckoutMode, true> = { payment: true, subscription: true, setup: true }
+
+const subscriptionStatus = s.oneOf(SUBSCRIPTION_STATUSES)
+const transactionType = s.oneOf(TRANSACTION_TYPES)
+const recurringInterval = s.oneOf(RECURRING_INTERVALS)
+
+/** List endpoints return either a page envelope or, on older API versions, a bare array. */
+export const list = <T>(item: s.Schema<T>): s.Schema<T[] | Page<T>> =>
+  s.union(
+    s.array(item),
+    s.object<Page<T>>({ data: s.array(item), hasMore: s.boolean(), nextCursor: s.nullable(s.string()) })
+  )
+
+export const project = s.object<Project>({
+  id: s.string(),
+  name: s.string(),
+  slug: s.string(),
+  organizationId: s.string(),
+})
+
+/** `projects.list` has also been seen wrapped as `{ projects: [...] }`. */
+export const projectList = s.union(s.object<{ projects: Project[] }>({ projects: s.array(project) }), s.array(project))
+
+export const customer = s.object<Customer>({
+  id: s.string(),
+  projectId: s.string(),
+  externalId: s.maybe(s.string()),
+  processorCustomerId: s.maybe(s.string()),
+  email: s.nullable(s.string()),
+  name: s.maybe(s.string()),
+})
+
+const transactionSummary = s.object<TransactionSummary>({
+  id: s.string(),
+  createdAt: s.string(),
+  type: transactionType,
+  amount: s.number(),
+  currency: s.string(),
+})
+
+const subscriptionSummary = s.object<SubscriptionSummary>({
+  id: s.string(),
+  createdAt: s.string(),
+  currentPeriodStart: s.optional(s.string()),
+  currentPeriodEnd: s.optional(s.string()),
+  status: subscriptionStatus,
+  processorSubscriptionId: s.optional(s.string()),
+})
+
+export const customerWithDetails = s.object<CustomerWithDetails>({
+  ...customer.shape,
+  transactions: s.array(transactionSummary),
+  subscriptions: s.array(subscriptionSummary),
+})
+
+const productFeature = s.object<ProductFeature>({
+  id: s.string(),
+  name: s.maybe(s.string()),
+  limit: s.maybe(s.number()),
+  resetInterval: s.maybe(recurringInterval),
+})
+
+const product = s.object<Product>({
+  id: s.string(),
+  productGroup: s.string(),
+  name: s.string(),
+  slug: s.string(),
+  description: s.maybe(s.string()),
+  isArchived: s.maybe(s.boolean()),
+  isDefault: s.maybe(s.boolean()),
+  processorProductId: s.maybe(s.string()),
+  projectId: s.string(),
+  features: s.maybe(s.array(productFeature)),
+  version: s.maybe(s.number()),
+})
+
+export const productPrice = s.object<ProductPrice>({
+  id: s.string(),
+  slug: s.maybe(s.string()),
+  name: s.maybe(s.string()),
+  description: s.maybe(s.string()),
+  priceAmount: s.number(),
+  priceCurrency: s.string(),
+  isDefault: s.maybe(s.boolean()),
+  recurringInterval: s.maybe(recurringInterval),
+  isArchived: s.maybe(s.boolean()),
+  currencyOptions: s.maybe(s.record(s.number())),
+})
+
+export const productWithPrices = s.object<ProductWithPrices>({ product, prices: s.array(productPrice) })
+
+export const createProductResponse = s.object<CreateProductResponse>({
+  productId: s.string(),
+  productGroup: s.string(),
+  version: s.number(),
+})
+
+export const updateProductResponse = s.object<UpdateProductResponse>(createProductResponse.shape)
+
+export const createPriceResponse = s.object<CreatePriceResponse>({ productPriceId: s.string() })
+
+export const createCheckoutResponse = s.object<CreateCheckoutResponse>({
+  id: s.string(),
+  sessionId: s.string(),
+  purchaseUrl: s.nullable(s.string()),
+  status: s.oneOf(CHECKOUT_STATUSES),
+})
+
+export const checkoutSession = s.object<CheckoutSession>({
+  ...createCheckoutResponse.shape,
+  mode: s.maybe(s.oneOf(CHECKOUT_MODES)),
+  customerId: s.maybe(s.string()),
+  productId: s.maybe(s.string()),
+  priceId: s.maybe(s.string()),
+  quantity: s.maybe(s.number()),
+  metadata: s.maybe(s.record(s.string())),
+  currency: s.maybe(s.string()),
+  expiresAt: s.maybe(s.string()),
+  completedAt: s.maybe(s.string()),
+})
+
+export const portalSession = s.object<PortalSession>({
+  id: s.string(),
+  customerId: s.string(),
+  url: s.string(),
+  expiresAt: s.maybe(s.string()),
+})
+
+export const checkResponse = s.object<CheckResponse>({
+  allowed: s.boolean(),
+  productId: s.maybe(s.string()),
+  limit: s.maybe(s.number()),
+  used: s.maybe(s.number()),
+  remaining: s.maybe(s.number()),
+})
+
+export const entitlement = s.object<Entitlement>({
+  featureId: s.string(),
+  featureName: s.maybe(s.string()),
+  productId: s.string(),
+  limit: s.nullable(s.number()),
+  used: s.maybe(s.number()),
+  remaining: s.nullable(s.number()),
+  resetsAt: s.maybe(s.string()),
+})
+
+export const usageRecord = s.object<UsageRecord>({
+  id: s.string(),
+  customerId: s.string(),
+  featureId: s.string(),
+  quantity: s.number(),
+  timestamp: s.string(),
+})
+
+const featureUsage = s.object<FeatureUsage>({
+  featureId: s.string(),
+  used: s.number(),
+  limit: s.nullable(s.number()),
+  remaining: s.nullable(s.number()),
+  periodStart: s.maybe(s.string()),
+  periodEnd: s.maybe(s.string()),
+})
+
+export const usageSummary = s.object<UsageSummary>({ customerId: s.string(), features: s.array(featureUsage) })
+
+export const subscription = s.object<Subscription>({
+  id: s.string(),
+  createdAt: s.string(),
+  status: subscriptionStatus,
+  projectId: s.string(),
+  productId: s.maybe(s.string()),
+  productPriceId: s.maybe(s.string()),
+  customerId: s.maybe(s.string()),
+  processorSubscriptionId: s.maybe(s.string()),
+  processorCustomerId: s.maybe(s.string()),
+  currentPeriodStart: s.maybe(s.string()),
+  currentPeriodEnd: s.maybe(s.string()),
+  canceledAt: s.maybe(s.string()),
+  endedAt: s.maybe(s.string()),
+  cancelAtPeriodEnd: s.maybe(s.boolean()),
+})
+
+export const transaction = s.object<Transaction>({
+  id: s.string(),
+  createdAt: s.string(),
+  type: transactionType,
+  amount: s.number(),
+  currency: s.string(),
+  processor: s.string(),
+  customerId: s.maybe(s.string()),
+  productId: s.maybe(s.string()),
+  succeededAt: s.maybe(s.string()),
+  refundedAt: s.maybe(s.string()),
+  amountRefunded: s.maybe(s.number()),
+  originalTransactionId: s.maybe(s.string()),
+})
+
+export const connectAccountResponse = s.object<ConnectAccountResponse>({
+  id: s.string(),
+  accountId: s.string(),
+  processorAccountId: s.string(),
+  status: s.string(),
+  companyId: s.string(),
+  title: s.string(),
+})
+
+export const connectedAccount = s.object<ConnectedAccount>({
+  id: s.string(),
+  processor: s.string(),
+  status: s.string(),
+  country: s.string(),
+  currency: s.string(),
+  detailsSubmitted: s.boolean(),
+  chargesEnabled: s.boolean(),
+  payoutsEnabled: s.boolean(),
+  businessType: s.maybe(s.string()),
+  processorAccountId: s.maybe(s.string()),
+  data: s.optional(s.record(s.unknown())),
+})
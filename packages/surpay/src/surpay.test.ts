@@ -0,0 +1,749 @@
+import { describe, test, expect, afterEach } from 'bun:test'
+import { Surpay } from './surpay.js'
+import { SurpayNetworkError } from './errors.js'
+import { signWebhookPayload } from './webhooks.js'
+
+const originalFetch = globalThis.fetch
+
+/**
+ * Replaces global fetch with a stub that records requests and answers them with the given bodies
+ * in order, repeating the last one. Pass `{ status, body }` via `respond()` for non-200 responses.
+ */
+const stubFetch = (...bodies: unknown[]) => {
+  const calls: Array<{ url: string; method: string; body: unknown; headers: Record<string, string> }> = []
+  globalThis.fetch = (async (url: string, init: RequestInit) => {
+    calls.push({
+      url,
+      method: init.method ?? 'GET',
+      body: init.body ? JSON.parse(init.body as string) : undefined,
+      headers: init.headers as Record<string, string>,
+    })
+    const next = bodies.length > 1 ? bodies.shift() : (bodies[0] ?? {})
+    const { status, body } = next instanceof StubbedResponse ? next : { status: 200, body: next }
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+  }) as typeof fetch
+  return calls
+}
+
+class StubbedResponse {
+  constructor(
+    readonly status: number,
+    readonly body: unknown
+  ) {}
+}
+
+const respond = (status: number, body: unknown = {}) => new StubbedResponse(status, body)
+
+const createSurpay = () => new Surpay({ apiKey: 'test_key', baseUrl: 'http://surpay.test' })
+
+afterEach(() => {
+  globalThis.fetch = originalFetch
+})
+
+describe('subscriptions', () => {
+  test('get fetches a single subscription', async () => {
+    const calls = stubFetch({ id: 'sub_1', status: 'active' })
+
+    const { data } = await createSurpay().subscriptions.get('sub_1')
+
+    expect(data?.id).toBe('sub_1')
+    expect(calls[0]).toMatchObject({ url: 'http://surpay.test/subscriptions/sub_1', method: 'GET' })
+  })
+
+  test('cancel defaults to cancelling at period end', async () => {
+    const calls = stubFetch({ id: 'sub_1', status: 'active', cancelAtPeriodEnd: true })
+
+    const { data } = await createSurpay().subscriptions.cancel('sub_1')
+
+    expect(data?.cancelAtPeriodEnd).toBe(true)
+    expect(calls[0]).toMatchObject({
+      url: 'http://surpay.test/subscriptions/sub_1/cancel',
+      method: 'POST',
+      body: { atPeriodEnd: true },
+    })
+  })
+
+  test('cancel can end the subscription immediately', async () => {
+    const calls = stubFetch({ id: 'sub_1', status: 'canceled' })
+
+    await createSurpay().subscriptions.cancel('sub_1', { atPeriodEnd: false })
+
+    expect(calls[0]!.body).toEqual({ atPeriodEnd: false })
+  })
+
+  test('resume and changePrice post to their endpoints', async () => {
+    const calls = stubFetch({ id: 'sub_1', status: 'active' })
+    const surpay = createSurpay()
+
+    await surpay.subscriptions.resume('sub_1')
+    await surpay.subscriptions.changePrice('sub_1', { priceId: 'price_yearly', proration: 'none' })
+
+    expect(calls[0]).toMatchObject({ url: 'http://surpay.test/subscriptions/sub_1/resume', method: 'POST' })
+    expect(calls[1]).toMatchObject({
+      url: 'http://surpay.test/subscriptions/sub_1/change-price',
+      method: 'POST',
+      body: { priceId: 'price_yearly', proration: 'none' },
+    })
+  })
+
+  test('encodes the subscription ID in every path', async () => {
+    const calls = stubFetch({ id: 'sub/1', status: 'active' })
+    const surpay = createSurpay()
+
+    await surpay.subscriptions.get('sub/1?x')
+    await surpay.subscriptions.cancel('sub/1?x')
+    await surpay.subscriptions.resume('sub/1?x')
+    await surpay.subscriptions.changePrice('sub/1?x', { priceId: 'price_yearly' })
+
+    expect(calls.map((call) => call.url)).toEqual([
+      'http://surpay.test/subscriptions/sub%2F1%3Fx',
+      'http://surpay.test/subscriptions/sub%2F1%3Fx/cancel',
+      'http://surpay.test/subscriptions/sub%2F1%3Fx/resume',
+      'http://surpay.test/subscriptions/sub%2F1%3Fx/change-price',
+    ])
+  })
+})
+
+describe('transactions', () => {
+  const payment = { id: 'txn_1', type: 'payment', amount: 1000, amountRefunded: 300, currency: 'usd' }
+  const refund = { id: 'txn_2', type: 'refund', amount: 1000, originalTransactionId: 'txn_1', currency: 'usd' }
+
+  test('refunds in full without fetching the original', async () => {
+    const calls = stubFetch(refund)
+
+    const { data } = await createSurpay().transactions.refund('txn_1', { reason: 'duplicate order' })
+
+    expect(data?.type).toBe('refund')
+    expect(calls).toHaveLength(1)
+    expect(calls[0]).toMatchObject({
+      url: 'http://surpay.test/transactions/txn_1/refund',
+      method: 'POST',
+      body: { reason: 'duplicate order' },
+    })
+  })
+
+  test('refunds partially when the amount is within the refundable remainder', async () => {
+    const calls = stubFetch(payment, { ...refund, amount: 700 })
+
+    const { data, error } = await createSurpay().transactions.refund('txn_1', { amount: 700 })
+
+    expect(error).toBeNull()
+    expect(data?.amount).toBe(700)
+    expect(calls.map((call) => call.method)).toEqual(['GET', 'POST'])
+  })
+
+  test('rejects partial amounts above the refundable remainder', async () => {
+    const calls = stubFetch(payment)
+
+    const { error } = await createSurpay().transactions.refund('txn_1', { amount: 701 })
+
+    expect(error?.code).toBe('validation_error')
+    expect(calls.map((call) => call.method)).toEqual(['GET'])
+  })
+
+  test('rejects non-positive amounts without a request', async () => {
+    const calls = stubFetch()
+
+    const { error } = await createSurpay().transactions.refund('txn_1', { amount: 0 })
+
+    expect(error?.code).toBe('validation_error')
+    expect(calls).toHaveLength(0)
+  })
+
+  test('encodes the transaction ID in every path', async () => {
+    const calls = stubFetch(payment, refund)
+
+    await createSurpay().transactions.refund('txn/1?x', { amount: 700 })
+
+    expect(calls.map((call) => call.url)).toEqual([
+      'http://surpay.test/transactions/txn%2F1%3Fx',
+      'http://surpay.test/transactions/txn%2F1%3Fx/refund',
+    ])
+  })
+})
+
+describe('request validation', () => {
+  test('rejects an invalid price without a request', async () => {
+    const calls = stubFetch({ productPriceId: 'price_1' })
+
+    const { error } = await createSurpay().prices.create({ productGroup: 'pro', price: -1, priceCurrency: 'usd' })
+
+    expect(error?.code).toBe('validation_error')
+    expect(calls).toHaveLength(0)
+  })
+
+  test('rejects an invalid page size without a request', async () => {
+    const calls = stubFetch([])
+
+    const { error } = await createSurpay().customers.list({ limit: -5 })
+
+    expect(error?.code).toBe('validation_error')
+    expect(calls).toHaveLength(0)
+  })
+})
+
+describe('customers', () => {
+  const customer = { id: 'cus_1', projectId: 'proj_1', externalId: 'user/42', email: 'a@example.com' }
+
+  test('getByExternalId encodes the external ID', async () => {
+    const calls = stubFetch(customer)
+
+    await createSurpay().customers.getByExternalId('user/42')
+
+    expect(calls[0]!.url).toBe('http://surpay.test/customers/external/user%2F42')
+  })
+
+  test('get forwards per-call headers', async () => {
+    const calls = stubFetch(customer)
+
+    await createSurpay().customers.get('cus_1', { headers: { 'X-Request-Id': 'req_1' } })
+
+    expect(calls[0]!.headers['x-request-id']).toBe('req_1')
+  })
+
+  test('create, update and delete hit the customer endpoints', async () => {
+    const calls = stubFetch(customer)
+    const surpay = createSurpay()
+
+    await surpay.customers.create({ externalId: 'user/42', email: 'a@example.com' })
+    await surpay.customers.update('cus_1', { name: 'Ada' })
+    await surpay.customers.delete('cus_1')
+
+    expect(calls.map((call) => `${call.method} ${call.url}`)).toEqual([
+      'POST http://surpay.test/customers',
+      'PUT http://surpay.test/customers/cus_1',
+      'DELETE http://surpay.test/customers/cus_1',
+    ])
+  })
+
+  test('encodes the customer ID in every path', async () => {
+    const calls = stubFetch(customer)
+    const surpay = createSurpay()
+
+    await surpay.customers.get('a/b?c')
+    await surpay.customers.update('a/b?c', { name: 'Ada' })
+    await surpay.customers.delete('a/b?c')
+    await surpay.entitlements.list('a/b?c')
+    await surpay.usage.summary('a/b?c')
+
+    expect(calls.map((call) => call.url)).toEqual([
+      'http://surpay.test/customers/a%2Fb%3Fc',
+      'http://surpay.test/customers/a%2Fb%3Fc',
+      'http://surpay.test/customers/a%2Fb%3Fc',
+      'http://surpay.test/customers/a%2Fb%3Fc/entitlements',
+      'http://surpay.test/customers/a%2Fb%3Fc/usage',
+    ])
+  })
+
+  test('upsert creates a missing customer', async () => {
+    const calls = stubFetch(respond(404), customer)
+
+    const { data } = await createSurpay().customers.upsert({ externalId: 'user/42', email: 'a@example.com' })
+
+    expect(data?.id).toBe('cus_1')
+    expect(calls[1]).toMatchObject({
+      url: 'http://surpay.test/customers',
+      method: 'POST',
+      body: { externalId: 'user/42', email: 'a@example.com' },
+    })
+  })
+
+  test('upsert updates an existing customer', async () => {
+    const calls = stubFetch(customer, { ...customer, name: 'Ada' })
+
+    const { data } = await createSurpay().customers.upsert({ externalId: 'user/42', name: 'Ada' })
+
+    expect(data?.name).toBe('Ada')
+    expect(calls[1]).toMatchObject({ url: 'http://surpay.test/customers/cus_1', method: 'PUT', body: { name: 'Ada' } })
+  })
+
+  test('upsert falls back to an update when a concurrent create wins', async () => {
+    const calls = stubFetch(respond(404), respond(409), customer, customer)
+
+    const { error } = await createSurpay().customers.upsert({ externalId: 'user/42', name: 'Ada' })
+
+    expect(error).toBeNull()
+    expect(calls.map((call) => call.method)).toEqual(['GET', 'POST', 'GET', 'PUT'])
+  })
+
+  test('upsert surfaces lookup errors other than not_found', async () => {
+    const calls = stubFetch(respond(401))
+
+    const { error } = await createSurpay().customers.upsert({ externalId: 'user/42' })
+
+    expect(error?.code).toBe('unauthorized')
+    expect(calls).toHaveLength(1)
+  })
+})
+
+describe('products and prices', () => {
+  const pro = {
+    product: { id: 'prod_1', productGroup: 'pro', name: 'Pro', slug: 'pro plan', projectId: 'proj_1' },
+    prices: [
+      { id: 'price_1', priceAmount: 2000, priceCurrency: 'USD', isDefault: false },
+      { id: 'price_2', priceAmount: 20000, priceCurrency: 'USD', isDefault: true },
+    ],
+  }
+
+  test('looks up products by ID or slug', async () => {
+    const calls = stubFetch(pro)
+    const surpay = createSurpay()
+
+    await surpay.products.get('prod_1')
+    const { data } = await surpay.products.getBySlug('pro plan')
+
+    expect(data?.product.id).toBe('prod_1')
+    expect(calls.map(({ url }) => url)).toEqual([
+      'http://surpay.test/products/prod_1',
+      'http://surpay.test/products/slug/pro%20plan',
+    ])
+  })
+
+  test('lists the prices of a product', async () => {
+    const calls = stubFetch({ data: pro.prices, hasMore: false })
+
+    const { data } = await createSurpay().prices.list({ productId: 'prod_1', limit: 10 })
+
+    expect(data?.data.map(({ id }) => id)).toEqual(['price_1', 'price_2'])
+    expect(calls[0]?.url).toBe('http://surpay.test/products/prod_1/prices?limit=10')
+  })
+
+  test('list requires a productId', async () => {
+    const calls = stubFetch({})
+
+    const { error } = await createSurpay().prices.list({ productId: '' })
+
+    expect(error?.code).toBe('validation_error')
+    expect(calls).toHaveLength(0)
+  })
+
+  test('encodes product and price IDs in the path', async () => {
+    const calls = stubFetch({ id: 'price/1', priceAmount: 2000, priceCurrency: 'USD' })
+    const surpay = createSurpay()
+
+    await surpay.prices.get('price/1?x')
+    await surpay.prices.list({ productId: 'prod/1?x' })
+    await surpay.products.update('prod/1?x', { name: 'Pro' })
+
+    expect(calls.map(({ url }) => url)).toEqual([
+      'http://surpay.test/product/price/price%2F1%3Fx',
+      'http://surpay.test/products/prod%2F1%3Fx/prices',
+      'http://surpay.test/product/prod%2F1%3Fx',
+    ])
+  })
+
+  test('getDefault returns the default price', async () => {
+    stubFetch(pro)
+
+    const { data } = await createSurpay().prices.getDefault('prod_1')
+
+    expect(data?.id).toBe('price_2')
+  })
+
+  test('getDefault fails with not_found when no price is the default', async () => {
+    stubFetch({ ...pro, prices: [pro.prices[0]] })
+
+    const { data, error } = await createSurpay().prices.getDefault('prod_1')
+
+    expect(data).toBeNull()
+    expect(error?.code).toBe('not_found')
+    expect(error?.message).toBe('Product prod_1 has no default price')
+  })
+
+  test('updates and archives prices', async () => {
+    const calls = stubFetch({ id: 'price_1', priceAmount: 2000, priceCurrency: 'USD' })
+    const surpay = createSurpay()
+
+    await surpay.prices.update('price_1', { name: 'Monthly', isDefault: true })
+    await surpay.prices.archive('price_1')
+
+    expect(calls.map(({ url, method, body }) => [method, url, body])).toEqual([
+      ['PUT', 'http://surpay.test/product/price/price_1', { name: 'Monthly', isDefault: true }],
+      ['POST', 'http://surpay.test/product/price/price_1/archive', undefined],
+    ])
+  })
+
+  test('update and archive encode the price ID', async () => {
+    const calls = stubFetch({ id: 'price/1', priceAmount: 2000, priceCurrency: 'USD' })
+    const surpay = createSurpay()
+
+    await surpay.prices.update('price/1?x', { name: 'Monthly' })
+    await surpay.prices.archive('price/1?x')
+
+    expect(calls.map(({ url }) => url)).toEqual([
+      'http://surpay.test/product/price/price%2F1%3Fx',
+      'http://surpay.test/product/price/price%2F1%3Fx/archive',
+    ])
+  })
+
+  test('getDefault skips an archived default price', async () => {
+    stubFetch({ ...pro, prices: [{ ...pro.prices[1], isArchived: true }] })
+
+    const { error } = await createSurpay().prices.getDefault('prod_1')
+
+    expect(error?.code).toBe('not_found')
+  })
+
+  test('passes on not_found from the API', async () => {
+    stubFetch(respond(404, { code: 'not_found', message: 'Product missing not found' }))
+
+    const { error } = await createSurpay().products.get('missing')
+
+    expect(error?.code).toBe('not_found')
+  })
+})
+
+describe('checkout', () => {
+  const session = (status: string) => ({ id: 'chk_1', sessionId: 'cs_1', purchaseUrl: null, status })
+
+  test('get and expire hit the session endpoints', async () => {
+    const calls = stubFetch(session('expired'))
+    const surpay = createSurpay()
+
+    await surpay.checkout.get('cs_1')
+    const { data } = await surpay.checkout.expire('cs_1')
+
+    expect(data?.status).toBe('expired')
+    expect(calls.map((call) => `${call.method} ${call.url}`)).toEqual([
+      'GET http://surpay.test/checkout/cs_1',
+      'POST http://surpay.test/checkout/cs_1/expire',
+    ])
+  })
+
+  test('get and expire encode the session ID', async () => {
+    const calls = stubFetch(session('expired'))
+    const surpay = createSurpay()
+
+    await surpay.checkout.get('cs/1?x')
+    await surpay.checkout.expire('cs/1?x')
+
+    expect(calls.map((call) => call.url)).toEqual([
+      'http://surpay.test/checkout/cs%2F1%3Fx',
+      'http://surpay.test/checkout/cs%2F1%3Fx/expire',
+    ])
+  })
+
+  test('waitForCompletion polls until a terminal status', async () => {
+    const calls = stubFetch(session('creating'), session('open'), session('completed'))
+
+    const { data } = await createSurpay().checkout.waitForCompletion('cs_1', { intervalMs: 1 })
+
+    expect(data?.status).toBe('completed')
+    expect(calls).toHaveLength(3)
+  })
+
+  test('waitForCompletion resolves with failed sessions', async () => {
+    stubFetch(session('failed'))
+
+    const { data, error } = await createSurpay().checkout.waitForCompletion('cs_1', { intervalMs: 1 })
+
+    expect(error).toBeNull()
+    expect(data?.status).toBe('failed')
+  })
+
+  test('waitForCompletion times out while the session stays open', async () => {
+    stubFetch(session('open'))
+
+    const { error } = await createSurpay().checkout.waitForCompletion('cs_1', { timeoutMs: 20, intervalMs: 5 })
+
+    expect(error).toBeInstanceOf(SurpayNetworkError)
+    expect(error?.code).toBe('timeout_error')
+    expect(error?.message).toContain('last status: open')
+  })
+
+  test('waitForCompletion stops polling when the signal aborts', async () => {
+    const calls = stubFetch(session('open'))
+    const controller = new AbortController()
+
+    const pending = createSurpay().checkout.waitForCompletion(
+      'cs_1',
+      { intervalMs: 60_000 },
+      { signal: controller.signal }
+    )
+    setTimeout(() => controller.abort(), 10)
+    const { error } = await pending
+
+    expect(error?.code).toBe('aborted')
+    expect(calls).toHaveLength(1)
+  })
+})
+
+describe('portal', () => {
+  test('createSession posts the customer and return URL', async () => {
+    const portal = { id: 'ps_1', customerId: 'cus_1', url: 'https://pay.test/portal/ps_1', expiresAt: null }
+    const calls = stubFetch(portal)
+
+    const { data } = await createSurpay().portal.createSession({
+      customerId: 'cus_1',
+      returnUrl: 'https://app.test/account',
+    })
+
+    expect(data?.url).toBe('https://pay.test/portal/ps_1')
+    expect(calls[0]).toMatchObject({
+      url: 'http://surpay.test/portal/sessions',
+      method: 'POST',
+      body: { customerId: 'cus_1', returnUrl: 'https://app.test/account' },
+    })
+  })
+
+  test('createSession rejects an invalid return URL without a request', async () => {
+    const calls = stubFetch()
+
+    const { error } = await createSurpay().portal.createSession({ customerId: 'cus_1', returnUrl: 'account' })
+
+    expect(error?.code).toBe('validation_error')
+    expect(calls).toHaveLength(0)
+  })
+})
+
+describe('usage', () => {
+  test('record sends the idempotency key as a header and the timestamp as ISO 8601', async () => {
+    const calls = stubFetch({ id: 'use_1' })
+
+    await createSurpay().usage.record({
+      customerId: 'cus_1',
+      featureId: 'api_calls',
+      quantity: 10,
+      timestamp: new Date('2024-01-01T00:00:00Z'),
+      idempotencyKey: 'job_1',
+    })
+
+    expect(calls[0]!.url).toBe('http://surpay.test/usage')
+    expect(calls[0]!.body).toEqual({
+      customerId: 'cus_1',
+      featureId: 'api_calls',
+      quantity: 10,
+      timestamp: '2024-01-01T00:00:00.000Z',
+    })
+    expect(calls[0]!.headers['idempotency-key']).toBe('job_1')
+  })
+
+  test('record rejects non-positive quantities without a request', async () => {
+    const calls = stubFetch()
+
+    const { error } = await createSurpay().usage.record({ customerId: 'cus_1', featureId: 'api_calls', quantity: 0 })
+
+    expect(error?.code).toBe('validation_error')
+    expect(calls).toHaveLength(0)
+  })
+
+  test('summary fetches the customer usage', async () => {
+    const calls = stubFetch({ customerId: 'cus_1', features: [] })
+
+    await createSurpay().usage.summary('cus_1')
+
+    expect(calls[0]!.url).toBe('http://surpay.test/customers/cus_1/usage')
+  })
+})
+
+describe('entitlements', () => {
+  test('list fetches the customer entitlements', async () => {
+    const calls = stubFetch([{ featureId: 'sso', productId: 'prod_1', limit: null, remaining: null }])
+
+    const { data } = await createSurpay().entitlements.list('cus_1')
+
+    expect(data?.[0]?.featureId).toBe('sso')
+    expect(calls[0]!.url).toBe('http://surpay.test/customers/cus_1/entitlements')
+  })
+
+  test('check accepts a feature without a product', async () => {
+    const calls = stubFetch({ allowed: true, productId: 'prod_1' })
+
+    const { data } = await createSurpay().check({ customerId: 'cus_1', featureId: 'sso' })
+
+    expect(data?.productId).toBe('prod_1')
+    expect(calls[0]!.body).toEqual({ customerId: 'cus_1', featureId: 'sso' })
+  })
+})
+
+describe('cache', () => {
+  const createCachedSurpay = () => new Surpay({ apiKey: 'test_key', baseUrl: 'http://surpay.test', cache: true })
+
+  test('is disabled by default', async () => {
+    const calls = stubFetch({ allowed: true })
+    const surpay = createSurpay()
+
+    await surpay.check({ customerId: 'cus_1', productId: 'prod_1' })
+    await surpay.check({ customerId: 'cus_1', productId: 'prod_1' })
+
+    expect(calls).toHaveLength(2)
+  })
+
+  test('serves repeated checks and product listings from memory', async () => {
+    const calls = stubFetch({ allowed: true })
+    const surpay = createCachedSurpay()
+
+    await surpay.check({ customerId: 'cus_1', productId: 'prod_1' })
+    const { data } = await surpay.check({ customerId: 'cus_1', productId: 'prod_1' })
+    await surpay.check({ customerId: 'cus_1', productId: 'prod_2' })
+    await surpay.products.listWithPrices()
+    await surpay.products.listWithPrices()
+
+    expect(data?.allowed).toBe(true)
+    expect(calls.map((call) => call.url)).toEqual([
+      'http://surpay.test/check',
+      'http://surpay.test/check',
+      'http://surpay.test/products',
+    ])
+  })
+
+  test('returns a copy on every hit', async () => {
+    stubFetch({ allowed: false })
+    const surpay = createCachedSurpay()
+
+    const first = await surpay.check({ customerId: 'cus_1', productId: 'prod_1' })
+    first.data!.allowed = true
+    const second = await surpay.check({ customerId: 'cus_1', productId: 'prod_1' })
+    second.data!.allowed = true
+    const third = await surpay.check({ customerId: 'cus_1', productId: 'prod_1' })
+
+    expect(first.attempts).toBe(1)
+    expect(third.data?.allowed).toBe(false)
+    expect(third.attempts).toBeUndefined()
+  })
+
+  test('does not cache failures', async () => {
+    const calls = stubFetch(respond(401), { allowed: true })
+    const surpay = createCachedSurpay()
+
+    await surpay.check({ customerId: 'cus_1', productId: 'prod_1' })
+    const { data } = await surpay.check({ customerId: 'cus_1', productId: 'prod_1' })
+
+    expect(data?.allowed).toBe(true)
+    expect(calls).toHaveLength(2)
+  })
+
+  test('invalidate drops only that customer', async () => {
+    const calls = stubFetch({ allowed: true })
+    const surpay = createCachedSurpay()
+
+    await surpay.check({ customerId: 'cus_1', productId: 'prod_1' })
+    await surpay.check({ customerId: 'cus_2', productId: 'prod_1' })
+    surpay.cache.invalidate('cus_1')
+    await surpay.check({ customerId: 'cus_1', productId: 'prod_1' })
+    await surpay.check({ customerId: 'cus_2', productId: 'prod_1' })
+
+    expect(calls).toHaveLength(3)
+  })
+
+  test('checkout.create invalidates the customer', async () => {
+    const calls = stubFetch({ allowed: false }, { id: 'chk_1' }, { allowed: true })
+    const surpay = createCachedSurpay()
+
+    await surpay.check({ customerId: 'cus_1', productId: 'prod_1' })
+    await surpay.checkout.create({ productId: 'prod_1', customerId: 'cus_1' })
+    const { data } = await surpay.check({ customerId: 'cus_1', productId: 'prod_1' })
+
+    expect(data?.allowed).toBe(true)
+    expect(calls).toHaveLength(3)
+  })
+
+  test('mutations returning a customerId invalidate that customer', async () => {
+    const calls = stubFetch({ allowed: true }, { id: 'sub_1', customerId: 'cus_1' }, { allowed: false })
+    const surpay = createCachedSurpay()
+
+    await surpay.check({ customerId: 'cus_1', productId: 'prod_1' })
+    await surpay.subscriptions.cancel('sub_1', { atPeriodEnd: false })
+    const { data } = await surpay.check({ customerId: 'cus_1', productId: 'prod_1' })
+
+    expect(data?.allowed).toBe(false)
+    expect(calls).toHaveLength(3)
+  })
+
+  test('failed mutations that may have been applied still drop stale entries', async () => {
+    const calls = stubFetch({ allowed: true }, respond(500), { allowed: false }, respond(504), { allowed: true })
+    const surpay = createCachedSurpay()
+
+    await surpay.check({ customerId: 'cus_1', productId: 'prod_1' })
+    await surpay.subscriptions.cancel('sub_1', { atPeriodEnd: false })
+    const afterCancel = await surpay.check({ customerId: 'cus_1', productId: 'prod_1' })
+    await surpay.transactions.refund('txn_1')
+    const afterRefund = await surpay.check({ customerId: 'cus_1', productId: 'prod_1' })
+
+    expect(afterCancel.data?.allowed).toBe(false)
+    expect(afterRefund.data?.allowed).toBe(true)
+    expect(calls).toHaveLength(5)
+  })
+
+  test('verified webhook events invalidate the customer', async () => {
+    const calls = stubFetch({ allowed: false })
+    const surpay = createCachedSurpay()
+    const body = JSON.stringify({
+      id: 'evt_1',
+      type: 'transaction.succeeded',
+      createdAt: '2024-01-01T00:00:00Z',
+      data: { id: 'txn_1', customerId: 'cus_1' },
+    })
+
+    await surpay.check({ customerId: 'cus_1', productId: 'prod_1' })
+    await surpay.webhooks.constructEvent(body, await signWebhookPayload(body, 'whsec'), 'whsec')
+    await surpay.check({ customerId: 'cus_1', productId: 'prod_1' })
+
+    expect(calls).toHaveLength(2)
+  })
+
+  test('webhook events without customer data return a Result', async () => {
+    const event = { id: 'evt_1', createdAt: '2024-01-01T00:00:00Z' }
+    const withoutData = JSON.stringify({ ...event, type: 'transaction.succeeded' })
+    const otherShape = JSON.stringify({ ...event, type: 'subscription.status_changed', data: { status: 'active' } })
+
+    for (const surpay of [createSurpay(), createCachedSurpay()]) {
+      const sign = (body: string) => signWebhookPayload(body, 'whsec')
+      const missing = await surpay.webhooks.constructEvent(withoutData, await sign(withoutData), 'whsec')
+      const mismatched = await surpay.webhooks.constructEvent(otherShape, await sign(otherShape), 'whsec')
+
+      expect(missing.error?.code).toBe('invalid_payload')
+      expect(mismatched.error).toBeNull()
+    }
+  })
+})
+
+describe('strict mode', () => {
+  const createStrictSurpay = () => new Surpay({ apiKey: 'test_key', baseUrl: 'http://surpay.test', strict: true })
+  const subscription = { id: 'sub_1', createdAt: '2024-01-01T00:00:00Z', status: 'active', projectId: 'proj_1' }
+
+  test('returns responses that match the schema', async () => {
+    stubFetch(subscription)
+
+    const { data, error } = await createStrictSurpay().subscriptions.get('sub_1')
+
+    expect(error).toBeNull()
+    expect(data).toEqual(subscription as typeof data)
+  })
+
+  test('reports the path of a malformed field', async () => {
+    stubFetch({ data: [subscription, { ...subscription, status: 'paused' }], hasMore: false, nextCursor: null })
+
+    const { data, error } = await createStrictSurpay().subscriptions.list()
+
+    expect(data).toBeNull()
+    expect(error?.code).toBe('response_validation_error')
+    expect(error?.message).toContain('$.data[1].status')
+    expect(error?.details).toMatchObject({ path: '$.data[1].status' })
+  })
+
+  test('rejects an empty body where data is expected', async () => {
+    globalThis.fetch = (async () => new Response(null, { status: 204 })) as unknown as typeof fetch
+
+    const { error } = await createStrictSurpay().subscriptions.get('sub_1')
+
+    expect(error?.code).toBe('response_validation_error')
+  })
+
+  test('accepts the wrapped projects shape', async () => {
+    stubFetch({ projects: [{ id: 'proj_1', name: 'Demo', slug: 'demo', organizationId: 'org_1' }] })
+
+    const { data, error } = await createStrictSurpay().projects.list()
+
+    expect(error).toBeNull()
+    expect(data).toHaveLength(1)
+  })
+
+  test('is off by default', async () => {
+    stubFetch({ ...subscription, status: 'paused' })
+
+    const { error } = await createSurpay().subscriptions.get('sub_1')
+
+    expect(error).toBeNull()
+  })
+})
@@ -5,96 +5,571 @@
  * Uses grouped method namespaces (Autumn pattern).
  */
 
+import { ResponseCache, customerTag } from './cache.js'
+import { syncCatalog } from './catalog.js'
 import { SurpayClient } from './client.js'
+import { resolveConfig } from './config.js'
+import { validateSubscriptionFilters, validateTransactionFilters } from './filters.js'
+import {
+  validateChangeSubscriptionPrice,
+  validateCheck,
+  validateConnectAccount,
+  validateCreateCheckout,
+  validateCreateCustomer,
+  validateCreatePortalSession,
+  validateCreatePrice,
+  validateCreateProduct,
+  validateListPrices,
+  validatePagination,
+  validateRecordUsage,
+  validateRefund,
+  validateUpdateCustomer,
+  validateUpdatePrice,
+  validateUpdateProduct,
+  validateUpsertCustomer,
+} from './validation.js'
+import { toPage } from './pagination.js'
+import { SurpayError, SurpayNetworkError } from './errors.js'
+import { toQueryString } from './utils/query.js'
+import { abortedFailure, validationFailure } from './utils/result.js'
+import { sleep } from './utils/sleep.js'
+import { Webhooks } from './webhooks.js'
+import * as s from './schema.js'
+import * as schemas from './schemas.js'
 import type {
   SurpayConfig,
-  Customer,
-  CustomerWithDetails,
+  RequestOptions,
+  PaginationParams,
+  CreateCustomerRequest,
+  UpdateCustomerRequest,
+  UpsertCustomerRequest,
   CreateProductRequest,
-  CreateProductResponse,
   UpdateProductRequest,
-  UpdateProductResponse,
-  ProductWithPrices,
   CreatePriceRequest,
-  CreatePriceResponse,
+  ListPricesParams,
+  UpdatePriceRequest,
   CreateCheckoutRequest,
-  CreateCheckoutResponse,
+  CheckoutStatus,
+  WaitForCheckoutOptions,
+  CreatePortalSessionRequest,
   CheckRequest,
-  CheckResponse,
-  Subscription,
-  Transaction,
-  Project,
+  RecordUsageRequest,
+  ListSubscriptionsParams,
+  CancelSubscriptionRequest,
+  ChangeSubscriptionPriceRequest,
+  ListTransactionsParams,
+  RefundTransactionRequest,
   ConnectAccountRequest,
-  ConnectAccountResponse,
-  ConnectedAccount,
+  CatalogDefinition,
+  SyncCatalogOptions,
+  WebhookEvent,
+  Failure,
+  Result,
 } from './types.js'
 
+const DEFAULT_CHECKOUT_WAIT_TIMEOUT_MS = 5 * 60 * 1000
+const DEFAULT_CHECKOUT_POLL_INTERVAL_MS = 2000
+const TERMINAL_CHECKOUT_STATUSES: CheckoutStatus[] = ['completed', 'failed', 'expired']
+
+/** Reads the customer an event concerns without trusting the payload to match its type. */
+const eventCustomerId = (event: WebhookEvent): string | null => {
+  const source: unknown = event.type === 'subscription.status_changed' ? event.data?.subscription : event.data
+  const customerId = (source as { customerId?: unknown } | null | undefined)?.customerId
+  return typeof customerId === 'string' ? customerId : null
+}
+
 export class Surpay extends SurpayClient {
+  /** @throws {SurpayError} with code `invalid_config` when an option or env var is invalid */
   constructor(options?: SurpayConfig) {
-    const envApiKey = typeof process !== 'undefined' ? process.env.SURPAY_API_KEY : undefined
-    const envBaseUrl = typeof process !== 'undefined' ? process.env.SURPAY_BASE_URL : undefined
-    const apiKey = options?.apiKey || envApiKey || ''
-    const baseUrl = options?.baseUrl ?? envBaseUrl
+    const config = resolveConfig(options)
+    super(config)
+    this.responseCache = config.cache ? new ResponseCache(config.cache) : null
+  }
 
-    if (!apiKey) {
-      throw new Error('Surpay API key is required. Pass it via options or set SURPAY_API_KEY env var.')
-    }
+  private readonly responseCache: ResponseCache | null
+
+  cache = {
+    /** Drops every cached entry involving this customer. */
+    invalidate: (customerId: string) => this.responseCache?.invalidateTags([customerTag(customerId)]),
 
-    super({ apiKey, baseUrl, responseCase: options?.responseCase })
+    clear: () => this.responseCache?.clear(),
   }
 
   customers = {
-    list: () => this.get<Customer[]>('/customers'),
+    list: (params?: PaginationParams, options?: RequestOptions) =>
+      this.getPage('/customers', params, options, schemas.customer),
+
+    get: (customerId: string, options?: RequestOptions) =>
+      this.get(`/customers/${encodeURIComponent(customerId)}`, options, schemas.customerWithDetails),
+
+    getByExternalId: (externalId: string, options?: RequestOptions) =>
+      this.get(`/customers/external/${encodeURIComponent(externalId)}`, options, schemas.customer),
+
+    create: (params: CreateCustomerRequest, options?: RequestOptions) =>
+      this.validated(validateCreateCustomer(params), () => this.post('/customers', params, options, schemas.customer)),
+
+    update: (customerId: string, params: UpdateCustomerRequest, options?: RequestOptions) =>
+      this.validated(validateUpdateCustomer(params), () =>
+        this.invalidating(
+          this.put(`/customers/${encodeURIComponent(customerId)}`, params, options, schemas.customer),
+          () => [customerId]
+        )
+      ),
+
+    delete: (customerId: string, options?: RequestOptions) =>
+      this.invalidating(this.delete<void>(`/customers/${encodeURIComponent(customerId)}`, options), () => [customerId]),
 
-    get: (customerId: string) => this.get<CustomerWithDetails>(`/customers/${customerId}`),
+    /**
+     * Creates the customer with this `externalId`, or updates it if it already exists.
+     * A concurrent create for the same `externalId` (409 conflict) falls back to an update.
+     */
+    upsert: async (params: UpsertCustomerRequest, options?: RequestOptions) => {
+      const invalid = validateUpsertCustomer(params)
+      if (invalid) {
+        return invalid
+      }
+
+      const { externalId, ...fields } = params
+      const existing = await this.customers.getByExternalId(externalId, options)
+      if (existing.error && existing.error.code !== 'not_found') {
+        return existing
+      }
+
+      if (existing.error) {
+        const created = await this.customers.create(params, options)
+        if (created.error?.code !== 'conflict') {
+          return created
+        }
+        const raced = await this.customers.getByExternalId(externalId, options)
+        if (raced.error) {
+          return raced
+        }
+        // The idempotency key already belongs to the failed create, so the fallback update goes without it
+        return this.customers.update(raced.data.id, fields, { ...options, idempotencyKey: undefined })
+      }
+
+      return this.customers.update(existing.data.id, fields, options)
+    },
   }
 
   products = {
-    create: (params: CreateProductRequest) => this.post<CreateProductResponse>('/product', params),
+    create: (params: CreateProductRequest, options?: RequestOptions) =>
+      this.validated(validateCreateProduct(params), () =>
+        this.clearingCache(this.post('/product', params, options, schemas.createProductResponse))
+      ),
+
+    update: (productId: string, params: UpdateProductRequest, options?: RequestOptions) =>
+      this.validated(validateUpdateProduct(params), () =>
+        this.clearingCache(
+          this.put(`/product/${encodeURIComponent(productId)}`, params, options, schemas.updateProductResponse)
+        )
+      ),
 
-    update: (productId: string, params: UpdateProductRequest) =>
-      this.put<UpdateProductResponse>(`/product/${productId}`, params),
+    listWithPrices: (params?: PaginationParams, options?: RequestOptions) =>
+      this.cached(`products:${toQueryString(params)}`, [], this.responseCache?.productsTtlMs, () =>
+        this.getPage('/products', params, options, schemas.productWithPrices)
+      ),
 
-    listWithPrices: () => this.get<ProductWithPrices[]>('/products'),
+    /** Looks up a product and its prices by ID, or by slug when no product has that ID. */
+    get: (idOrSlug: string, options?: RequestOptions) =>
+      this.cached(`product:${idOrSlug}`, [], this.responseCache?.productsTtlMs, () =>
+        this.get(`/products/${encodeURIComponent(idOrSlug)}`, options, schemas.productWithPrices)
+      ),
+
+    /** Looks up the active product with this slug, for slugs that could be mistaken for an ID. */
+    getBySlug: (slug: string, options?: RequestOptions) =>
+      this.cached(`product-slug:${slug}`, [], this.responseCache?.productsTtlMs, () =>
+        this.get(`/products/slug/${encodeURIComponent(slug)}`, options, schemas.productWithPrices)
+      ),
   }
 
   prices = {
-    create: (params: CreatePriceRequest) => this.post<CreatePriceResponse>('/product/price', params),
+    create: (params: CreatePriceRequest, options?: RequestOptions) =>
+      this.validated(validateCreatePrice(params), () =>
+        this.clearingCache(this.post('/product/price', params, options, schemas.createPriceResponse))
+      ),
+
+    /** Changes the name, description or default flag of a price. Amounts and intervals are fixed. */
+    update: (priceId: string, params: UpdatePriceRequest, options?: RequestOptions) =>
+      this.validated(validateUpdatePrice(params), () =>
+        this.clearingCache(
+          this.put(`/product/price/${encodeURIComponent(priceId)}`, params, options, schemas.productPrice)
+        )
+      ),
+
+    /**
+     * Archives a price so it can no longer be used for new checkouts. Existing subscriptions keep it.
+     * Archiving the default price leaves the product without one until another price is made the default.
+     */
+    archive: (priceId: string, options?: RequestOptions) =>
+      this.clearingCache(
+        this.post(`/product/price/${encodeURIComponent(priceId)}/archive`, undefined, options, schemas.productPrice)
+      ),
+
+    get: (priceId: string, options?: RequestOptions) =>
+      this.get(`/product/price/${encodeURIComponent(priceId)}`, options, schemas.productPrice),
+
+    list: (params: ListPricesParams, options?: RequestOptions) =>
+      this.validated(validateListPrices(params), () => {
+        const { productId, ...page } = params
+        return this.getPage(`/products/${encodeURIComponent(productId)}/prices`, page, options, schemas.productPrice)
+      }),
+
+    /** Returns the active price flagged `isDefault` of a product, or a `not_found` failure when it has none. */
+    getDefault: async (productId: string, options?: RequestOptions) => {
+      const result = await this.products.get(productId, options)
+      if (result.error) {
+        return result
+      }
+      const price = result.data.prices.find(({ isDefault, isArchived }) => isDefault && !isArchived)
+      if (!price) {
+        return {
+          data: null,
+          error: new SurpayError({
+            message: `Product ${productId} has no default price`,
+            code: 'not_found',
+            statusCode: 0,
+          }),
+          statusCode: 0,
+        }
+      }
+      return { data: price, error: null, statusCode: result.statusCode }
+    },
+  }
+
+  catalog = {
+    /**
+     * Brings products and prices in line with a declarative definition keyed by slug.
+     *
+     * Diffs `definition` against every page of `products.listWithPrices()` (bypassing the cache) and applies the
+     * resulting creates, updates and archives one by one. Each change reports its own status and `SurpayError`;
+     * with `dryRun` nothing is applied and every change is `pending`. `options` apply to each request, except
+     * `idempotencyKey`, which cannot be shared between different calls.
+     */
+    sync: (definition: CatalogDefinition, syncOptions: SyncCatalogOptions = {}, options?: RequestOptions) => {
+      const mutationOptions = { ...options, idempotencyKey: undefined }
+      return syncCatalog(definition, syncOptions, {
+        listProducts: (params) => this.getPage('/products', params, options, schemas.productWithPrices),
+        createProduct: (params) => this.products.create(params, mutationOptions),
+        updateProduct: (productId, params) => this.products.update(productId, params, mutationOptions),
+        createPrice: (params) => this.prices.create(params, mutationOptions),
+        updatePrice: (priceId, params) => this.prices.update(priceId, params, mutationOptions),
+        archivePrice: (priceId) => this.prices.archive(priceId, mutationOptions),
+      })
+    },
   }
 
   checkout = {
-    create: (params: CreateCheckoutRequest) => this.post<CreateCheckoutResponse>('/checkout', params),
+    create: (params: CreateCheckoutRequest, options?: RequestOptions) =>
+      this.validated(validateCreateCheckout(params), () =>
+        this.invalidating(this.post('/checkout', params, options, schemas.createCheckoutResponse), () => [
+          params.customerId,
+        ])
+      ),
+
+    get: (sessionId: string, options?: RequestOptions) =>
+      this.get(`/checkout/${encodeURIComponent(sessionId)}`, options, schemas.checkoutSession),
+
+    /** Expires an open checkout session so it can no longer be paid. */
+    expire: (sessionId: string, options?: RequestOptions) =>
+      this.invalidating(
+        this.post(`/checkout/${encodeURIComponent(sessionId)}/expire`, undefined, options, schemas.checkoutSession),
+        (session) => [session?.customerId]
+      ),
+
+    /**
+     * Polls a checkout session until it reaches a terminal status (`completed`, `failed` or `expired`).
+     * Resolves with the session in that status; the caller decides how to treat `failed`/`expired`.
+     * Returns a `timeout_error` failure if the session is still pending after `timeoutMs`, with the same
+     * `SurpayNetworkError` class as a timed-out request.
+     * `options` apply to each status request; aborting its `signal` also stops polling.
+     */
+    waitForCompletion: async (
+      sessionId: string,
+      waitOptions: WaitForCheckoutOptions = {},
+      options?: RequestOptions
+    ) => {
+      const { timeoutMs = DEFAULT_CHECKOUT_WAIT_TIMEOUT_MS, intervalMs = DEFAULT_CHECKOUT_POLL_INTERVAL_MS } =
+        waitOptions
+      const deadline = Date.now() + timeoutMs
+
+      while (true) {
+        const result = await this.checkout.get(sessionId, options)
+        if (result.error || TERMINAL_CHECKOUT_STATUSES.includes(result.data.status)) {
+          return result
+        }
+
+        const remainingMs = deadline - Date.now()
+        if (remainingMs <= 0) {
+          return {
+            data: null,
+            error: new SurpayNetworkError({
+              message:
+                `Checkout session ${sessionId} did not complete within ${timeoutMs}ms ` +
+                `(last status: ${result.data.status})`,
+              code: 'timeout_error',
+              statusCode: 0,
+            }),
+            statusCode: 0,
+          }
+        }
+        await sleep(Math.min(intervalMs, remainingMs), options?.signal)
+        if (options?.signal?.aborted) {
+          return abortedFailure()
+        }
+      }
+    },
+  }
+
+  portal = {
+    /** Creates a hosted billing portal session where the customer can update cards, view invoices or cancel. */
+    createSession: (params: CreatePortalSessionRequest, options?: RequestOptions) =>
+      this.validated(validateCreatePortalSession(params), () =>
+        this.post('/portal/sessions', params, options, schemas.portalSession)
+      ),
   }
 
-  check = (params: CheckRequest) => this.post<CheckResponse>('/check', params)
+  check = (params: CheckRequest, options?: RequestOptions) =>
+    this.validated(validateCheck(params), () =>
+      this.cached(
+        `check:${params.customerId}:${params.productId ?? ''}:${params.featureId ?? ''}:${params.quantity ?? ''}`,
+        [customerTag(params.customerId)],
+        this.responseCache?.ttlMs,
+        () => this.post('/check', params, options, schemas.checkResponse)
+      )
+    )
+
+  entitlements = {
+    /** Lists every feature the customer has access to, across all products they own. */
+    list: (customerId: string, options?: RequestOptions) =>
+      this.get(`/customers/${encodeURIComponent(customerId)}/entitlements`, options, s.array(schemas.entitlement)),
+  }
+
+  usage = {
+    /** Reports metered usage of a feature. Counted against the customer's allowance for the current period. */
+    record: async (params: RecordUsageRequest, options?: RequestOptions) => {
+      const invalid = validateRecordUsage(params)
+      if (invalid) {
+        return invalid
+      }
+
+      const { idempotencyKey, timestamp, ...fields } = params
+      const time = timestamp instanceof Date ? timestamp.toISOString() : timestamp
+      return this.invalidating(
+        this.post(
+          '/usage',
+          { ...fields, timestamp: time },
+          { ...options, idempotencyKey: idempotencyKey ?? options?.idempotencyKey },
+          schemas.usageRecord
+        ),
+        () => [fields.customerId]
+      )
+    },
+
+    /** Returns current-period usage, limits and remaining balance for each metered feature of a customer. */
+    summary: (customerId: string, options?: RequestOptions) =>
+      this.get(`/customers/${encodeURIComponent(customerId)}/usage`, options, schemas.usageSummary),
+  }
 
   subscriptions = {
-    list: () => this.get<Subscription[]>('/subscriptions'),
+    list: async (params?: ListSubscriptionsParams, options?: RequestOptions) => {
+      const invalid = validateSubscriptionFilters(params)
+      if (invalid) {
+        return invalid
+      }
+      return this.getPage('/subscriptions', params, options, schemas.subscription)
+    },
+
+    get: (subscriptionId: string, options?: RequestOptions) =>
+      this.get(`/subscriptions/${encodeURIComponent(subscriptionId)}`, options, schemas.subscription),
+
+    cancel: (subscriptionId: string, params: CancelSubscriptionRequest = {}, options?: RequestOptions) =>
+      this.invalidating(
+        this.post(
+          `/subscriptions/${encodeURIComponent(subscriptionId)}/cancel`,
+          { ...params, atPeriodEnd: params.atPeriodEnd ?? true },
+          options,
+          schemas.subscription
+        ),
+        (subscription) => [subscription?.customerId]
+      ),
+
+    resume: (subscriptionId: string, options?: RequestOptions) =>
+      this.invalidating(
+        this.post(
+          `/subscriptions/${encodeURIComponent(subscriptionId)}/resume`,
+          undefined,
+          options,
+          schemas.subscription
+        ),
+        (subscription) => [subscription?.customerId]
+      ),
+
+    changePrice: (subscriptionId: string, params: ChangeSubscriptionPriceRequest, options?: RequestOptions) =>
+      this.validated(validateChangeSubscriptionPrice(params), () =>
+        this.invalidating(
+          this.post(
+            `/subscriptions/${encodeURIComponent(subscriptionId)}/change-price`,
+            params,
+            options,
+            schemas.subscription
+          ),
+          (subscription) => [subscription?.customerId]
+        )
+      ),
   }
 
   transactions = {
-    list: () => this.get<Transaction[]>('/transactions'),
+    list: async (params?: ListTransactionsParams, options?: RequestOptions) => {
+      const invalid = validateTransactionFilters(params)
+      if (invalid) {
+        return invalid
+      }
+      return this.getPage('/transactions', params, options, schemas.transaction)
+    },
+
+    get: (transactionId: string, options?: RequestOptions) =>
+      this.get(`/transactions/${encodeURIComponent(transactionId)}`, options, schemas.transaction),
+
+    /**
+     * Refunds a payment in full, or partially when `amount` is given.
+     * Partial amounts are checked against the remaining refundable amount before the refund is requested.
+     * Returns the resulting `refund` transaction.
+     */
+    refund: async (transactionId: string, params: RefundTransactionRequest = {}, options?: RequestOptions) => {
+      const invalid = validateRefund(params)
+      if (invalid) {
+        return invalid
+      }
+
+      if (params.amount !== undefined) {
+        const original = await this.transactions.get(transactionId, options)
+        if (original.error) {
+          return original
+        }
+        const refundable = original.data.amount - (original.data.amountRefunded ?? 0)
+        if (params.amount > refundable) {
+          return validationFailure(
+            `Refund amount ${params.amount} exceeds the refundable amount ${refundable} of transaction ${transactionId}`
+          )
+        }
+      }
+
+      return this.invalidating(
+        this.post(`/transactions/${encodeURIComponent(transactionId)}/refund`, params, options, schemas.transaction),
+        (refund) => [refund?.customerId]
+      )
+    },
   }
 
   projects = {
-    list: async () => {
-      const result = await this.get<Project[] | { projects: Project[] }>('/projects')
+    list: async (options?: RequestOptions) => {
+      const result = await this.get('/projects', options, schemas.projectList)
       if (result.error) {
         return result
       }
       // Normalize wrapped response: { projects: [...] } -> [...]
-      const data = Array.isArray(result.data) ? result.data : (result.data as { projects: Project[] }).projects || []
+      const data = Array.isArray(result.data) ? result.data : result.data.projects || []
       return { data, error: null, statusCode: result.statusCode }
     },
   }
 
   accounts = {
-    connect: (params: ConnectAccountRequest) => this.post<ConnectAccountResponse>('/accounts/connect/whop', params),
+    connect: (params: ConnectAccountRequest, options?: RequestOptions) =>
+      this.validated(validateConnectAccount(params), () =>
+        this.post('/accounts/connect/whop', params, options, schemas.connectAccountResponse)
+      ),
+
+    get: (accountId: string, options?: RequestOptions) =>
+      this.get(`/accounts/${encodeURIComponent(accountId)}`, options, schemas.connectedAccount),
+
+    list: (params?: PaginationParams, options?: RequestOptions) =>
+      this.getPage('/accounts', params, options, schemas.connectedAccount),
+
+    delete: (accountId: string, options?: RequestOptions) =>
+      this.delete<void>(`/accounts/${encodeURIComponent(accountId)}`, options),
+  }
+
+  webhooks = new Webhooks((event) => {
+    if (!this.responseCache) return
+    const customerId = eventCustomerId(event)
+    if (customerId) {
+      this.responseCache.invalidateTags([customerTag(customerId)])
+    }
+  })
+
+  /** Returns the client-side validation failure as is, or runs the request when the input is valid. */
+  private async validated<T>(
+    invalid: Failure<SurpayError> | null,
+    request: () => Promise<Result<T, SurpayError>>
+  ): Promise<Result<T, SurpayError>> {
+    return invalid ?? request()
+  }
 
-    get: (accountId: string) => this.get<ConnectedAccount>(`/accounts/${accountId}`),
+  /**
+   * Serves a read from the cache when caching is enabled, storing successful results.
+   * Stores and serves copies, so callers mutating a result do not change later hits. Hits carry no `attempts`.
+   */
+  private async cached<T>(
+    key: string,
+    tags: string[],
+    ttlMs: number | undefined,
+    load: () => Promise<Result<T, SurpayError>>
+  ): Promise<Result<T, SurpayError>> {
+    const hit = this.responseCache?.get<{ data: T; statusCode: number }>(key)
+    if (hit) {
+      return { data: structuredClone(hit.data), error: null, statusCode: hit.statusCode }
+    }
+    const result = await load()
+    if (!result.error) {
+      const entry = { data: structuredClone(result.data), statusCode: result.statusCode }
+      this.responseCache?.set(key, entry, { ttlMs, tags })
+    }
+    return result
+  }
+
+  /**
+   * Runs a mutation, then drops cached entries of the customers it touched.
+   * Failures invalidate too, since a timed-out request may still have been applied. When the customers are only
+   * known from the response, a failure leaves none to invalidate, so the whole cache is cleared instead.
+   */
+  private async invalidating<T>(
+    request: Promise<Result<T, SurpayError>>,
+    customerIds: (data: T | null) => Array<string | null | undefined>
+  ): Promise<Result<T, SurpayError>> {
+    const result = await request
+    if (this.responseCache) {
+      const ids = customerIds(result.data).filter((id): id is string => !!id)
+      if (result.error && ids.length === 0) {
+        this.responseCache.clear()
+      } else {
+        this.responseCache.invalidateTags(ids.map(customerTag))
+      }
+    }
+    return result
+  }
 
-    list: () => this.get<ConnectedAccount[]>('/accounts'),
+  /** Runs a catalog mutation, then clears the whole cache since it may change any customer's access. */
+  private async clearingCache<T>(request: Promise<Result<T, SurpayError>>): Promise<Result<T, SurpayError>> {
+    const result = await request
+    this.responseCache?.clear()
+    return result
+  }
 
-    delete: (accountId: string) => this.delete<void>(`/accounts/${accountId}`),
+  private async getPage<T>(
+    path: string,
+    params: PaginationParams | undefined,
+    options: RequestOptions | undefined,
+    item: s.Schema<T>
+  ) {
+    const invalid = validatePagination(params ?? {})
+    if (invalid) {
+      return invalid
+    }
+    const result = await this.get(`${path}${toQueryString(params)}`, options, schemas.list(item))
+    if (result.error) {
+      return result
+    }
+    return { ...result, data: toPage(result.data) }
   }
 }
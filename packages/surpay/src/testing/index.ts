@@ -0,0 +1,20 @@
+/**
+ * Surpay SDK testing utilities, published as `@surgent/pay/testing`.
+ *
+ * @example
+ * ```typescript
+ * import { MockSurpay } from '@surgent/pay/testing'
+ *
+ * const mock = new MockSurpay()
+ * const surpay = mock.client()
+ * ```
+ */
+
+export { MockSurpay, MOCK_API_KEY, MOCK_ORIGIN } from './mock-surpay.js'
+export type {
+  MockSurpayOptions,
+  InjectedError,
+  MockRequest,
+  CompleteCheckoutOptions,
+  CompletedCheckout,
+} from './mock-surpay.js'
@@ -0,0 +1,310 @@
+import { describe, test, expect } from 'bun:test'
+import { SurpayNetworkError, SurpayRateLimitError } from '../errors.js'
+import { MockSurpay } from './mock-surpay.js'
+
+/** Strict clients also check that every mock response matches the SDK's response schemas. */
+const setup = async () => {
+  const mock = new MockSurpay()
+  const surpay = mock.client({ strict: true, retry: { maxAttempts: 1 } })
+
+  await surpay.products.create({
+    productGroup: 'pro',
+    name: 'Pro',
+    slug: 'pro',
+    features: [{ id: 'sso' }, { id: 'api_calls', limit: 100, resetInterval: 'month' }],
+  })
+  await surpay.prices.create({
+    productGroup: 'pro',
+    price: 2000,
+    priceCurrency: 'USD',
+    recurringInterval: 'month',
+    isDefault: true,
+  })
+  const { data: products } = await surpay.products.listWithPrices()
+  const { product, prices } = products!.data[0]!
+  const { data: customer } = await surpay.customers.create({ externalId: 'user_1', email: 'ada@example.com' })
+
+  return { mock, surpay, productId: product.id, priceId: prices[0]!.id, customerId: customer!.id }
+}
+
+describe('MockSurpay', () => {
+  test('serves the catalog it was given', async () => {
+    const { surpay, productId } = await setup()
+
+    const { data, error } = await surpay.products.listWithPrices()
+
+    expect(error).toBeNull()
+    expect(data?.data).toHaveLength(1)
+    expect(data?.data[0]).toMatchObject({
+      product: { id: productId, slug: 'pro', version: 1 },
+      prices: [{ priceAmount: 2000, priceCurrency: 'USD', recurringInterval: 'month', isDefault: true }],
+    })
+  })
+
+  test('numbers request IDs apart from resource IDs', async () => {
+    const mock = new MockSurpay()
+    const surpay = mock.client({ retry: { maxAttempts: 1 } })
+
+    const first = await surpay.products.get('pro')
+    const second = await surpay.products.get('pro')
+    const { data } = await surpay.customers.create({ externalId: 'user_1' })
+
+    expect(first.error?.requestId).toBe('req_1')
+    expect(second.error?.requestId).toBe('req_2')
+    expect(data?.id).toBe('cus_1')
+  })
+
+  test('looks up products and prices', async () => {
+    const { surpay, productId, priceId } = await setup()
+
+    const bySlug = await surpay.products.get('pro')
+    const price = await surpay.prices.get(priceId)
+    const prices = await surpay.prices.list({ productId })
+    const defaultPrice = await surpay.prices.getDefault(productId)
+    const missing = await surpay.products.getBySlug('enterprise')
+
+    expect(bySlug.data?.product.id).toBe(productId)
+    expect(price.data).toMatchObject({ id: priceId, priceAmount: 2000 })
+    expect(prices.data?.data.map(({ id }) => id)).toEqual([priceId])
+    expect(defaultPrice.data?.id).toBe(priceId)
+    expect(missing.error?.code).toBe('not_found')
+  })
+
+  test('completing a checkout grants access and records the payment', async () => {
+    const { mock, surpay, productId, customerId } = await setup()
+
+    const { data: checkout } = await surpay.checkout.create({ productId, customerId })
+    expect(checkout?.status).toBe('open')
+    expect((await surpay.check({ customerId, productId })).data?.allowed).toBe(false)
+
+    const { subscription, transaction } = mock.completeCheckout(checkout!.sessionId)
+
+    expect(subscription).toMatchObject({ status: 'active', customerId, productId })
+    expect(transaction).toMatchObject({ type: 'payment', amount: 2000, currency: 'USD', customerId })
+    expect((await surpay.checkout.get(checkout!.sessionId)).data?.status).toBe('completed')
+    expect((await surpay.check({ customerId, productId })).data?.allowed).toBe(true)
+    expect((await surpay.subscriptions.list({ customerId })).data?.data).toHaveLength(1)
+    expect((await surpay.customers.get(customerId)).data?.transactions).toHaveLength(1)
+  })
+
+  test('charges the currency selected at checkout', async () => {
+    const { mock, surpay, customerId } = await setup()
+    await surpay.products.create({ productGroup: 'team', name: 'Team', slug: 'team' })
+    await surpay.prices.create({
+      productGroup: 'team',
+      price: 5000,
+      priceCurrency: 'USD',
+      recurringInterval: 'month',
+      currencyOptions: { EUR: 4500 },
+    })
+    const { data: team } = await surpay.products.get('team')
+    const productId = team!.product.id
+
+    const { data: checkout } = await surpay.checkout.create({ productId, customerId, currency: 'EUR', quantity: 2 })
+    const unsupported = await surpay.checkout.create({ productId, customerId, currency: 'GBP' })
+    const { transaction } = mock.completeCheckout(checkout!.sessionId)
+
+    expect(team?.prices[0]?.currencyOptions).toEqual({ EUR: 4500 })
+    expect((await surpay.checkout.get(checkout!.sessionId)).data?.currency).toBe('EUR')
+    expect(transaction).toMatchObject({ amount: 9000, currency: 'EUR' })
+    expect(unsupported.error?.message).toMatch(/is not offered in GBP$/)
+  })
+
+  test('archived prices cannot be used for new checkouts', async () => {
+    const { surpay, productId, priceId, customerId } = await setup()
+    await surpay.prices.create({ productGroup: 'pro', price: 20000, priceCurrency: 'USD', recurringInterval: 'year' })
+
+    const updated = await surpay.prices.update(priceId, { name: 'Monthly' })
+    const archived = await surpay.prices.archive(priceId)
+    const withArchived = await surpay.checkout.create({ productId, customerId, priceId })
+    const withDefault = await surpay.checkout.create({ productId, customerId })
+
+    expect(updated.data).toMatchObject({ name: 'Monthly', isDefault: true })
+    expect(archived.data).toMatchObject({ isArchived: true, isDefault: false })
+    expect(withArchived.error?.code).toBe('bad_request')
+    expect((await surpay.checkout.get(withDefault.data!.sessionId)).data?.priceId).not.toBe(priceId)
+    expect((await surpay.prices.getDefault(productId)).error?.code).toBe('not_found')
+    expect((await surpay.prices.update(priceId, { isDefault: true })).error?.code).toBe('bad_request')
+  })
+
+  test('completing a checkout without a customer creates one', async () => {
+    const { mock, surpay, productId } = await setup()
+    const { data: checkout } = await surpay.checkout.create({ productId, customerEmail: 'new@example.com' })
+
+    const { customer, session } = mock.completeCheckout(checkout!.sessionId)
+
+    expect(customer.email).toBe('new@example.com')
+    expect(session.customerId).toBe(customer.id)
+    expect(() => mock.completeCheckout(checkout!.sessionId)).toThrow('is completed, not open')
+  })
+
+  test('accepts app-level customer IDs it has not seen before', async () => {
+    const { mock, surpay, productId } = await setup()
+
+    const before = await surpay.check({ customerId: 'user_abc', productId })
+    const { data: checkout } = await surpay.checkout.create({ productId, customerId: 'user_abc' })
+    const { customer } = mock.completeCheckout(checkout!.sessionId)
+
+    expect(before.data?.allowed).toBe(false)
+    expect((await surpay.entitlements.list('user_abc')).data?.map(({ featureId }) => featureId)).toContain('sso')
+    expect(customer.id).toBe('user_abc')
+    expect((await surpay.check({ customerId: 'user_abc', productId })).data?.allowed).toBe(true)
+  })
+
+  test('a trial subscription starts without a payment', async () => {
+    const { mock, surpay, productId, customerId } = await setup()
+    const { data: checkout } = await surpay.checkout.create({ productId, customerId, trialDays: 14 })
+
+    const { subscription, transaction } = mock.completeCheckout(checkout!.sessionId)
+
+    expect(subscription?.status).toBe('trialing')
+    expect(transaction).toBeNull()
+  })
+
+  test('tracks metered usage against the feature limit', async () => {
+    const { mock, surpay, productId, customerId } = await setup()
+    const { data: checkout } = await surpay.checkout.create({ productId, customerId })
+    mock.completeCheckout(checkout!.sessionId)
+
+    await surpay.usage.record({ customerId, featureId: 'api_calls', quantity: 95 })
+
+    expect((await surpay.check({ customerId, featureId: 'api_calls', quantity: 10 })).data).toMatchObject({
+      allowed: false,
+      limit: 100,
+      used: 95,
+      remaining: 5,
+    })
+    expect((await surpay.usage.summary(customerId)).data?.features).toEqual([
+      { featureId: 'api_calls', used: 95, limit: 100, remaining: 5 },
+    ])
+    expect((await surpay.entitlements.list(customerId)).data?.map(({ featureId }) => featureId)).toEqual([
+      'sso',
+      'api_calls',
+    ])
+  })
+
+  test('refunds update the original payment and revoke one-time purchases', async () => {
+    const { mock, surpay, customerId } = await setup()
+    await surpay.products.create({ productGroup: 'lifetime', name: 'Lifetime', slug: 'lifetime' })
+    await surpay.prices.create({ productGroup: 'lifetime', price: 5000, priceCurrency: 'USD' })
+    const { data: products } = await surpay.products.listWithPrices()
+    const lifetime = products!.data[1]!.product
+    const { data: checkout } = await surpay.checkout.create({ productId: lifetime.id, customerId })
+    const { transaction } = mock.completeCheckout(checkout!.sessionId)
+
+    const partial = await surpay.transactions.refund(transaction!.id, { amount: 1000 })
+    expect(partial.data).toMatchObject({ type: 'refund', amount: 1000, originalTransactionId: transaction!.id })
+    expect((await surpay.check({ customerId, productId: lifetime.id })).data?.allowed).toBe(true)
+
+    await surpay.transactions.refund(transaction!.id)
+
+    expect((await surpay.transactions.get(transaction!.id)).data?.amountRefunded).toBe(5000)
+    expect((await surpay.check({ customerId, productId: lifetime.id })).data?.allowed).toBe(false)
+    expect((await surpay.transactions.list({ type: 'refund' })).data?.data).toHaveLength(2)
+  })
+
+  test('cancels and resumes subscriptions', async () => {
+    const { mock, surpay, productId, customerId } = await setup()
+    const { data: checkout } = await surpay.checkout.create({ productId, customerId })
+    const { subscription } = mock.completeCheckout(checkout!.sessionId)
+
+    expect((await surpay.subscriptions.cancel(subscription!.id)).data?.cancelAtPeriodEnd).toBe(true)
+    expect((await surpay.subscriptions.resume(subscription!.id)).data?.cancelAtPeriodEnd).toBe(false)
+
+    const { data: canceled } = await surpay.subscriptions.cancel(subscription!.id, { atPeriodEnd: false })
+    expect(canceled?.status).toBe('canceled')
+    expect((await surpay.check({ customerId, productId })).data?.allowed).toBe(false)
+  })
+
+  test('returns API errors for missing and conflicting resources', async () => {
+    const { surpay } = await setup()
+
+    expect((await surpay.customers.get('cus_missing')).error?.code).toBe('not_found')
+    expect((await surpay.customers.create({ externalId: 'user_1' })).error?.code).toBe('conflict')
+    expect((await surpay.customers.getByExternalId('user_1')).data?.email).toBe('ada@example.com')
+  })
+
+  test('paginates lists with cursors', async () => {
+    const { surpay } = await setup()
+    await surpay.customers.create({ email: 'b@example.com' })
+    await surpay.customers.create({ email: 'c@example.com' })
+
+    const first = await surpay.customers.list({ limit: 2 })
+    const second = await surpay.customers.list({ limit: 2, startingAfter: first.data!.nextCursor! })
+
+    expect(first.data).toMatchObject({ hasMore: true })
+    expect(second.data?.data.map(({ email }) => email)).toEqual(['c@example.com'])
+    expect(second.data).toMatchObject({ hasMore: false, nextCursor: null })
+  })
+
+  test('replays responses for a reused idempotency key', async () => {
+    const { surpay } = await setup()
+
+    const first = await surpay.customers.create({ email: 'x@example.com' }, { idempotencyKey: 'key_1' })
+    const second = await surpay.customers.create({ email: 'x@example.com' }, { idempotencyKey: 'key_1' })
+
+    expect(second.data?.id).toBe(first.data!.id)
+    expect((await surpay.customers.list()).data?.data).toHaveLength(2)
+  })
+
+  test('rejects requests without an API key', async () => {
+    const mock = new MockSurpay()
+
+    const response = await mock.fetch('https://pay.surgent.dev/customers', { method: 'GET' })
+
+    expect(response.status).toBe(401)
+  })
+
+  describe('fault injection', () => {
+    test('fails matching requests the given number of times', async () => {
+      const { mock, surpay } = await setup()
+      mock.injectError({ method: 'GET', path: '/customers', status: 429, retryAfter: 2, times: 2 })
+
+      const first = await surpay.customers.list()
+      const second = await surpay.customers.list()
+      const third = await surpay.customers.list()
+
+      expect(first.error).toBeInstanceOf(SurpayRateLimitError)
+      expect((first.error as SurpayRateLimitError).retryAfter).toBe(2)
+      expect(second.error?.statusCode).toBe(429)
+      expect(third.error).toBeNull()
+    })
+
+    test('leaves other routes untouched', async () => {
+      const { mock, surpay, customerId } = await setup()
+      mock.injectError({ path: /^\/subscriptions/, status: 503 })
+
+      expect((await surpay.customers.get(customerId)).error).toBeNull()
+      expect((await surpay.subscriptions.list()).error?.code).toBe('service_unavailable')
+    })
+
+    test('simulates network failures', async () => {
+      const { mock, surpay } = await setup()
+      mock.injectError({ network: true })
+
+      const { error } = await surpay.customers.list()
+
+      expect(error).toBeInstanceOf(SurpayNetworkError)
+      expect(error?.code).toBe('network_error')
+    })
+
+    test('simulated latency triggers client timeouts', async () => {
+      const mock = new MockSurpay({ latencyMs: 200 })
+      const surpay = mock.client({ timeoutMs: 20, retry: { maxAttempts: 1 } })
+
+      const { error } = await surpay.customers.list()
+
+      expect(error?.code).toBe('timeout_error')
+    })
+  })
+
+  test('reset clears state and recorded requests', async () => {
+    const { mock, surpay } = await setup()
+    expect(mock.requests.length).toBeGreaterThan(0)
+
+    mock.reset()
+
+    expect(mock.requests).toHaveLength(0)
+    expect((await surpay.customers.list()).data?.data).toEqual([])
+  })
+})
@@ -0,0 +1,1077 @@
+/**
+ * In-memory Surpay API for tests.
+ *
+ * `MockSurpay` serves every route the `Surpay` client calls from in-memory state, through the `fetch`
+ * function it hands to the client, so tests run without a network or an API key. State stays consistent
+ * across calls: completing a checkout creates the customer, subscription and payment that later `check()`,
+ * `entitlements.list()` and `transactions.list()` calls see. Errors can be injected per route, and latency
+ * for every route at once.
+ *
+ * Like the API, checkout, `check()` and `entitlements.list()` accept a `customerId` the mock has never seen,
+ * such as an app's own user ID: it has no access until a checkout for it completes, which creates the customer
+ * under that ID.
+ */
+
+import type { FieldError } from '../errors.js'
+import { Surpay } from '../surpay.js'
+import { sleep } from '../utils/sleep.js'
+import type {
+  CancelSubscriptionRequest,
+  ChangeSubscriptionPriceRequest,
+  CheckoutSession,
+  CheckRequest,
+  ConnectAccountRequest,
+  ConnectedAccount,
+  CreateCheckoutRequest,
+  CreateCustomerRequest,
+  CreatePortalSessionRequest,
+  CreatePriceRequest,
+  CreateProductRequest,
+  Customer,
+  CustomerWithDetails,
+  Entitlement,
+  FeatureUsage,
+  FetchFunction,
+  Page,
+  Product,
+  ProductFeature,
+  ProductPrice,
+  Project,
+  RecordUsageRequest,
+  RecurringInterval,
+  RefundTransactionRequest,
+  Subscription,
+  SubscriptionStatus,
+  SurpayConfig,
+  Transaction,
+  UpdateCustomerRequest,
+  UpdatePriceRequest,
+  UpdateProductRequest,
+  UsageRecord,
+} from '../types.js'
+
+/** Host used in the `purchaseUrl` and portal `url` of mock sessions */
+export const MOCK_ORIGIN = 'https://mock.surpay.test'
+
+/** API key used by `MockSurpay.client()`. The mock accepts any non-empty bearer token. */
+export const MOCK_API_KEY = 'mock_api_key'
+
+const PROJECT: Project = { id: 'proj_mock', name: 'Mock Project', slug: 'mock-project', organizationId: 'org_mock' }
+
+const DEFAULT_PAGE_SIZE = 100
+const CHECKOUT_TTL_MS = 24 * 60 * 60 * 1000
+const PORTAL_TTL_MS = 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Subscription statuses that still grant access to the product */
+const ACCESS_STATUSES: SubscriptionStatus[] = ['active', 'trialing', 'past_due']
+
+export interface MockSurpayOptions {
+  /** Delay before every response, in milliseconds. Default: 0 */
+  latencyMs?: number
+}
+
+/** A failure returned for matching requests instead of their normal response. See `MockSurpay.injectError()`. */
+export interface InjectedError {
+  /** Only fail requests with this HTTP method. Default: any method */
+  method?: string
+  /** Only fail requests to this path (without query string), matched exactly or by pattern. Default: any path */
+  path?: string | RegExp
+  /** HTTP status of the failure. Default: 500 */
+  status?: number
+  /** `code` in the error body. Default: derived by the client from the status */
+  code?: string
+  message?: string
+  /** Sent as the `Retry-After` header, in seconds */
+  retryAfter?: number
+  /** Make `fetch` throw like a connection failure instead of responding */
+  network?: boolean
+  /** Number of matching requests to fail. Pass `Infinity` to fail all of them. Default: 1 */
+  times?: number
+}
+
+/** A request received by the mock, recorded in `MockSurpay.requests` */
+export interface MockRequest {
+  method: string
+  /** Path including the query string, e.g. `/customers?limit=10` */
+  path: string
+  /** Header names are lowercased */
+  headers: Record<string, string>
+  body: unknown
+}
+
+export interface CompleteCheckoutOptions {
+  /** Email of the customer created when the session has none. Default: the session's `customerEmail` */
+  customerEmail?: string
+}
+
+export interface CompletedCheckout {
+  session: CheckoutSession
+  customer: Customer
+  /** Set when the checkout started a subscription */
+  subscription: Subscription | null
+  /** The payment. Null for `setup` checkouts and for subscriptions starting with a free trial. */
+  transaction: Transaction | null
+}
+
+interface Reply {
+  status: number
+  body?: unknown
+  headers?: Record<string, string>
+}
+
+interface StoredCheckout {
+  session: CheckoutSession
+  request: CreateCheckoutRequest
+}
+
+interface MockState {
+  customers: Map<string, Customer>
+  products: Map<string, Product>
+  prices: Map<string, ProductPrice>
+  /** Price ID -> product ID */
+  priceProducts: Map<string, string>
+  checkouts: Map<string, StoredCheckout>
+  subscriptions: Map<string, Subscription>
+  transactions: Map<string, Transaction>
+  /** IDs of one-time payments, which grant access to their product until fully refunded */
+  purchases: Set<string>
+  usage: UsageRecord[]
+  accounts: Map<string, ConnectedAccount>
+  /** `${method} ${path} ${key}` -> the reply first sent for that idempotency key */
+  idempotentReplies: Map<string, Reply>
+  lastId: number
+}
+
+type Handler = (id: string, body: unknown, query: URLSearchParams) => Reply
+
+const emptyState = (): MockState => ({
+  customers: new Map(),
+  products: new Map(),
+  prices: new Map(),
+  priceProducts: new Map(),
+  checkouts: new Map(),
+  subscriptions: new Map(),
+  transactions: new Map(),
+  purchases: new Set(),
+  usage: [],
+  accounts: new Map(),
+  idempotentReplies: new Map(),
+  lastId: 0,
+})
+
+const ok = (body: unknown, status = 200): Reply => ({ status, body })
+
+const fail = (status: number, code: string, message: string, fieldErrors?: FieldError[]): Reply => ({
+  status,
+  body: { message, code, fieldErrors },
+})
+
+const notFound = (kind: string, id: string) => fail(404, 'not_found', `${kind} ${id} not found`)
+
+const conflict = (message: string) => fail(409, 'conflict', message)
+
+/** Returns a 422 naming every listed field that is missing from the body, like the API does. */
+const missingFields = (body: object, fields: string[]): Reply | null => {
+  const fieldErrors = fields
+    .filter((field) => {
+      const value = (body as Record<string, unknown>)[field]
+      return value === undefined || value === null || value === ''
+    })
+    .map((field) => ({ field, message: 'is required' }))
+  if (fieldErrors.length === 0) return null
+  const summary = fieldErrors.map(({ field }) => `${field} is required`).join('; ')
+  return fail(422, 'validation_error', `Invalid request: ${summary}`, fieldErrors)
+}
+
+/** Drops undefined values so `Object.assign` only applies the fields a request actually set. */
+const defined = <T extends object>(fields: T): Partial<T> =>
+  Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as Partial<T>
+
+const now = () => new Date().toISOString()
+
+const later = (ms: number) => new Date(Date.now() + ms).toISOString()
+
+const addInterval = (from: Date, interval: RecurringInterval): Date => {
+  const date = new Date(from)
+  switch (interval) {
+    case 'day':
+      date.setUTCDate(date.getUTCDate() + 1)
+      break
+    case 'week':
+      date.setUTCDate(date.getUTCDate() + 7)
+      break
+    case 'month':
+      date.setUTCMonth(date.getUTCMonth() + 1)
+      break
+    case 'year':
+      date.setUTCFullYear(date.getUTCFullYear() + 1)
+      break
+  }
+  return date
+}
+
+/** Splits a comma-joined filter, as sent by `toQueryString`, into its values. */
+const listFilter = (query: URLSearchParams, name: string): string[] | null => query.get(name)?.split(',') ?? null
+
+const paginate = <T>(items: T[], query: URLSearchParams, idOf: (item: T) => string): Reply => {
+  const limit = Number(query.get('limit') ?? DEFAULT_PAGE_SIZE)
+  const cursor = query.get('startingAfter')
+  let start = 0
+  if (cursor !== null) {
+    const index = items.findIndex((item) => idOf(item) === cursor)
+    if (index === -1) return fail(400, 'bad_request', `Unknown cursor ${cursor}`)
+    start = index + 1
+  }
+  const data = items.slice(start, start + limit)
+  const last = data[data.length - 1]
+  const hasMore = start + limit < items.length
+  const page: Page<T> = { data, hasMore, nextCursor: hasMore && last ? idOf(last) : null }
+  return ok(page)
+}
+
+const byId = (item: { id: string }) => item.id
+
+/**
+ * In-memory implementation of the Surpay API.
+ *
+ * @example
+ * ```typescript
+ * import { MockSurpay } from '@surgent/pay/testing'
+ *
+ * const mock = new MockSurpay()
+ * const surpay = mock.client()
+ *
+ * const { data: checkout } = await surpay.checkout.create({ productId, customerId })
+ * mock.completeCheckout(checkout.sessionId)
+ *
+ * const { data } = await surpay.check({ customerId, productId })
+ * // data.allowed === true
+ * ```
+ */
+export class MockSurpay {
+  /** Every request received, in order, including failed and injected ones */
+  readonly requests: MockRequest[] = []
+
+  private state = emptyState()
+  private latencyMs: number
+  private injectedErrors: Array<InjectedError & { remaining: number }> = []
+
+  constructor(options: MockSurpayOptions = {}) {
+    this.latencyMs = options.latencyMs ?? 0
+  }
+
+  /**
+   * `fetch` implementation answering from the mock's state. Pass it as the `fetch` option of a `Surpay`
+   * client, or use `client()`. Honours the request's abort signal, including while latency is simulated.
+   */
+  fetch: FetchFunction = async (url, init) => {
+    const { pathname, search, searchParams } = new URL(url)
+    const method = (init.method ?? 'GET').toUpperCase()
+    const headers = Object.fromEntries(new Headers(init.headers))
+    const body: unknown = typeof init.body === 'string' ? JSON.parse(init.body) : undefined
+    this.requests.push({ method, path: `${pathname}${search}`, headers, body })
+
+    const signal = init.signal ?? undefined
+    if (this.latencyMs > 0) {
+      await sleep(this.latencyMs, signal)
+    }
+    signal?.throwIfAborted()
+
+    const injected = this.takeInjectedError(method, pathname)
+    if (injected?.network) {
+      throw new TypeError(injected.message ?? 'fetch failed')
+    }
+    const reply = injected ? this.injectedReply(injected) : this.handle(method, pathname, headers, body, searchParams)
+    return this.toResponse(reply)
+  }
+
+  /** Creates a `Surpay` client wired to this mock. `config` is passed through, e.g. `{ strict: true }`. */
+  client(config: SurpayConfig = {}): Surpay {
+    return new Surpay({ apiKey: MOCK_API_KEY, ...config, fetch: this.fetch })
+  }
+
+  /**
+   * Fails the next matching request(s) with the given status, or with a network error when `network` is set.
+   * Errors are matched in the order they were injected.
+   */
+  injectError(error: InjectedError = {}): void {
+    this.injectedErrors.push({ ...error, remaining: error.times ?? 1 })
+  }
+
+  /** Delays every following response by `ms` milliseconds. */
+  setLatency(ms: number): void {
+    this.latencyMs = ms
+  }
+
+  /** Clears all data, recorded requests and pending injected errors. Latency is kept. */
+  reset(): void {
+    this.state = emptyState()
+    this.requests.length = 0
+    this.injectedErrors = []
+  }
+
+  /**
+   * Simulates the customer paying an open checkout session, as if they finished the hosted checkout page.
+   *
+   * Creates the customer when the session has none, or under the session's `customerId` when the mock does not
+   * know it yet. Starts a subscription for `subscription` checkouts
+   * (trialing when `trialDays` was set), records the payment, and marks the session `completed`.
+   * @throws {Error} when the session does not exist or is not open
+   */
+  completeCheckout(sessionId: string, options: CompleteCheckoutOptions = {}): CompletedCheckout {
+    const { session, request } = this.openCheckout(sessionId)
+    const price = session.priceId ? this.state.prices.get(session.priceId) : undefined
+
+    const customerFields = { email: options.customerEmail ?? request.customerEmail, name: request.customerName }
+    const customer = session.customerId
+      ? (this.state.customers.get(session.customerId) ?? this.insertCustomer(customerFields, session.customerId))
+      : this.insertCustomer(customerFields)
+
+    let subscription: Subscription | null = null
+    const trialDays = request.trialDays ?? 0
+    if (session.mode === 'subscription') {
+      const start = new Date()
+      const end =
+        trialDays > 0
+          ? new Date(start.getTime() + trialDays * DAY_MS)
+          : addInterval(start, price?.recurringInterval ?? 'month')
+      subscription = {
+        id: this.nextId('sub'),
+        createdAt: start.toISOString(),
+        status: trialDays > 0 ? 'trialing' : 'active',
+        projectId: PROJECT.id,
+        productId: session.productId,
+        productPriceId: session.priceId,
+        customerId: customer.id,
+        processorSubscriptionId: null,
+        processorCustomerId: null,
+        currentPeriodStart: start.toISOString(),
+        currentPeriodEnd: end.toISOString(),
+        canceledAt: null,
+        endedAt: null,
+        cancelAtPeriodEnd: false,
+      }
+      this.state.subscriptions.set(subscription.id, subscription)
+    }
+
+    let transaction: Transaction | null = null
+    if (price && session.mode !== 'setup' && !(subscription && trialDays > 0)) {
+      const currency = session.currency ?? price.priceCurrency
+      const amount = currency === price.priceCurrency ? price.priceAmount : price.currencyOptions![currency]!
+      transaction = this.insertTransaction({
+        type: 'payment',
+        amount: amount * (session.quantity ?? 1),
+        currency,
+        customerId: customer.id,
+        productId: session.productId,
+        originalTransactionId: null,
+      })
+      if (!subscription) {
+        this.state.purchases.add(transaction.id)
+      }
+    }
+
+    Object.assign(session, { status: 'completed', customerId: customer.id, completedAt: now() })
+    return structuredClone({ session, customer, subscription, transaction })
+  }
+
+  /**
+   * Simulates the payment of an open checkout session failing.
+   * @throws {Error} when the session does not exist or is not open
+   */
+  failCheckout(sessionId: string): CheckoutSession {
+    const { session } = this.openCheckout(sessionId)
+    session.status = 'failed'
+    return structuredClone(session)
+  }
+
+  private openCheckout(sessionId: string): StoredCheckout {
+    const checkout = this.state.checkouts.get(sessionId)
+    if (!checkout) {
+      throw new Error(`Unknown checkout session ${sessionId}`)
+    }
+    if (checkout.session.status !== 'open') {
+      throw new Error(`Checkout session ${sessionId} is ${checkout.session.status}, not open`)
+    }
+    return checkout
+  }
+
+  // ==========================================================================
+  // Request handling
+  // ==========================================================================
+
+  private readonly routes: Array<[method: string, path: RegExp, handler: Handler]> = [
+    ['GET', /^\/projects$/, () => ok([PROJECT])],
+
+    ['POST', /^\/product$/, (_, body) => this.createProduct(body as CreateProductRequest)],
+    ['PUT', /^\/product\/([^/]+)$/, (id, body) => this.updateProduct(id, body as UpdateProductRequest)],
+    ['GET', /^\/products$/, (_, __, query) => this.listProducts(query)],
+    ['GET', /^\/products\/slug\/([^/]+)$/, (slug) => this.getProductBySlug(slug)],
+    ['GET', /^\/products\/([^/]+)$/, (idOrSlug) => this.getProduct(idOrSlug)],
+    ['GET', /^\/products\/([^/]+)\/prices$/, (id, _, query) => this.listPrices(id, query)],
+    ['POST', /^\/product\/price$/, (_, body) => this.createPrice(body as CreatePriceRequest)],
+    ['GET', /^\/product\/price\/([^/]+)$/, (id) => this.getFrom(this.state.prices, 'Price', id)],
+    ['PUT', /^\/product\/price\/([^/]+)$/, (id, body) => this.updatePrice(id, body as UpdatePriceRequest)],
+    ['POST', /^\/product\/price\/([^/]+)\/archive$/, (id) => this.archivePrice(id)],
+
+    ['POST', /^\/checkout$/, (_, body) => this.createCheckout(body as CreateCheckoutRequest)],
+    ['GET', /^\/checkout\/([^/]+)$/, (id) => this.getCheckout(id)],
+    ['POST', /^\/checkout\/([^/]+)\/expire$/, (id) => this.expireCheckout(id)],
+
+    ['POST', /^\/portal\/sessions$/, (_, body) => this.createPortalSession(body as CreatePortalSessionRequest)],
+
+    ['POST', /^\/check$/, (_, body) => this.check(body as CheckRequest)],
+    ['POST', /^\/usage$/, (_, body) => this.recordUsage(body as RecordUsageRequest)],
+
+    ['GET', /^\/customers$/, (_, __, query) => paginate([...this.state.customers.values()], query, byId)],
+    ['POST', /^\/customers$/, (_, body) => this.createCustomer(body as CreateCustomerRequest)],
+    ['GET', /^\/customers\/external\/([^/]+)$/, (externalId) => this.getCustomerByExternalId(externalId)],
+    ['GET', /^\/customers\/([^/]+)$/, (id) => this.getCustomer(id)],
+    ['PUT', /^\/customers\/([^/]+)$/, (id, body) => this.updateCustomer(id, body as UpdateCustomerRequest)],
+    ['DELETE', /^\/customers\/([^/]+)$/, (id) => this.deleteFrom(this.state.customers, 'Customer', id)],
+    ['GET', /^\/customers\/([^/]+)\/entitlements$/, (id) => this.listEntitlements(id)],
+    ['GET', /^\/customers\/([^/]+)\/usage$/, (id) => this.usageSummary(id)],
+
+    ['GET', /^\/subscriptions$/, (_, __, query) => this.listSubscriptions(query)],
+    ['GET', /^\/subscriptions\/([^/]+)$/, (id) => this.getFrom(this.state.subscriptions, 'Subscription', id)],
+    [
+      'POST',
+      /^\/subscriptions\/([^/]+)\/cancel$/,
+      (id, body) => this.cancelSubscription(id, body as CancelSubscriptionRequest),
+    ],
+    ['POST', /^\/subscriptions\/([^/]+)\/resume$/, (id) => this.resumeSubscription(id)],
+    [
+      'POST',
+      /^\/subscriptions\/([^/]+)\/change-price$/,
+      (id, body) => this.changeSubscriptionPrice(id, body as ChangeSubscriptionPriceRequest),
+    ],
+
+    ['GET', /^\/transactions$/, (_, __, query) => this.listTransactions(query)],
+    ['GET', /^\/transactions\/([^/]+)$/, (id) => this.getFrom(this.state.transactions, 'Transaction', id)],
+    [
+      'POST',
+      /^\/transactions\/([^/]+)\/refund$/,
+      (id, body) => this.refundTransaction(id, body as RefundTransactionRequest),
+    ],
+
+    ['POST', /^\/accounts\/connect\/whop$/, (_, body) => this.connectAccount(body as ConnectAccountRequest)],
+    ['GET', /^\/accounts$/, (_, __, query) => paginate([...this.state.accounts.values()], query, byId)],
+    ['GET', /^\/accounts\/([^/]+)$/, (id) => this.getFrom(this.state.accounts, 'Account', id)],
+    ['DELETE', /^\/accounts\/([^/]+)$/, (id) => this.deleteFrom(this.state.accounts, 'Account', id)],
+  ]
+
+  private handle(
+    method: string,
+    path: string,
+    headers: Record<string, string>,
+    body: unknown,
+    query: URLSearchParams
+  ): Reply {
+    if (!/^Bearer \S+$/.test(headers.authorization ?? '')) {
+      return fail(401, 'unauthorized', 'Missing or invalid API key')
+    }
+
+    const idempotencyKey = headers['idempotency-key']
+    const replayKey = idempotencyKey ? `${method} ${path} ${idempotencyKey}` : null
+    const replay = replayKey ? this.state.idempotentReplies.get(replayKey) : undefined
+    if (replay) return replay
+
+    const reply = this.route(method, path, body ?? {}, query)
+    if (replayKey) {
+      this.state.idempotentReplies.set(replayKey, structuredClone(reply))
+    }
+    return reply
+  }
+
+  private route(method: string, path: string, body: unknown, query: URLSearchParams): Reply {
+    for (const [routeMethod, pattern, handler] of this.routes) {
+      const match = routeMethod === method ? pattern.exec(path) : null
+      if (match) {
+        return handler(decodeURIComponent(match[1] ?? ''), body, query)
+      }
+    }
+    return fail(404, 'not_found', `No route for ${method} ${path}`)
+  }
+
+  private takeInjectedError(method: string, path: string): InjectedError | null {
+    const index = this.injectedErrors.findIndex(
+      (error) =>
+        (!error.method || error.method.toUpperCase() === method) &&
+        (error.path === undefined || (typeof error.path === 'string' ? error.path === path : error.path.test(path)))
+    )
+    const error = this.injectedErrors[index]
+    if (!error) return null
+    error.remaining--
+    if (error.remaining <= 0) {
+      this.injectedErrors.splice(index, 1)
+    }
+    return error
+  }
+
+  private injectedReply(error: InjectedError): Reply {
+    const status = error.status ?? 500
+    return {
+      status,
+      body: { message: error.message ?? `Injected error (${status})`, code: error.code },
+      headers: error.retryAfter !== undefined ? { 'Retry-After': String(error.retryAfter) } : undefined,
+    }
+  }
+
+  private toResponse(reply: Reply): Response {
+    // Request IDs count requests rather than drawing from `nextId`, so resource IDs stay stable however many
+    // lookups ran before they were created.
+    const headers = { 'X-Request-Id': `req_${this.requests.length}`, ...reply.headers }
+    if (reply.status === 204) {
+      return new Response(null, { status: 204, headers })
+    }
+    return new Response(JSON.stringify(reply.body), {
+      status: reply.status,
+      headers: { 'Content-Type': 'application/json', ...headers },
+    })
+  }
+
+  private nextId(prefix: string): string {
+    return `${prefix}_${++this.state.lastId}`
+  }
+
+  private getFrom<T>(items: Map<string, T>, kind: string, id: string): Reply {
+    const item = items.get(id)
+    return item ? ok(item) : notFound(kind, id)
+  }
+
+  private deleteFrom(items: Map<string, unknown>, kind: string, id: string): Reply {
+    return items.delete(id) ? { status: 204 } : notFound(kind, id)
+  }
+
+  // ==========================================================================
+  // Products & Prices
+  // ==========================================================================
+
+  private createProduct(body: CreateProductRequest): Reply {
+    const invalid = missingFields(body, ['productGroup', 'name', 'slug'])
+    if (invalid) return invalid
+    if (this.findProductBySlug(body.slug)) {
+      return conflict(`A product with slug ${body.slug} already exists`)
+    }
+
+    const product: Product = {
+      id: this.nextId('prod'),
+      productGroup: body.productGroup,
+      name: body.name,
+      slug: body.slug,
+      description: body.description ?? null,
+      isArchived: false,
+      isDefault: body.isDefault ?? false,
+      processorProductId: null,
+      projectId: PROJECT.id,
+      features: body.features ?? [],
+      version: 1,
+    }
+    this.state.products.set(product.id, product)
+    return ok({ productId: product.id, productGroup: product.productGroup, version: product.version })
+  }
+
+  private updateProduct(productId: string, body: UpdateProductRequest): Reply {
+    const product = this.state.products.get(productId)
+    if (!product) return notFound('Product', productId)
+    const existing = body.slug ? this.findProductBySlug(body.slug) : undefined
+    if (existing && existing.id !== productId) {
+      return conflict(`A product with slug ${body.slug} already exists`)
+    }
+
+    Object.assign(product, defined(body), { version: (product.version ?? 1) + 1 })
+    return ok({ productId: product.id, productGroup: product.productGroup, version: product.version })
+  }
+
+  private listProducts(query: URLSearchParams): Reply {
+    const products = [...this.state.products.values()].map((product) => ({
+      product,
+      prices: this.pricesOf(product.id),
+    }))
+    return paginate(products, query, ({ product }) => product.id)
+  }
+
+  private getProduct(idOrSlug: string): Reply {
+    const product = this.state.products.get(idOrSlug) ?? this.findProductBySlug(idOrSlug)
+    return product ? ok({ product, prices: this.pricesOf(product.id) }) : notFound('Product', idOrSlug)
+  }
+
+  private getProductBySlug(slug: string): Reply {
+    const product = this.findProductBySlug(slug)
+    return product ? ok({ product, prices: this.pricesOf(product.id) }) : notFound('Product with slug', slug)
+  }
+
+  private listPrices(productId: string, query: URLSearchParams): Reply {
+    if (!this.state.products.has(productId)) return notFound('Product', productId)
+    return paginate(this.pricesOf(productId), query, byId)
+  }
+
+  private createPrice(body: CreatePriceRequest): Reply {
+    const invalid = missingFields(body, ['productGroup', 'price', 'priceCurrency'])
+    if (invalid) return invalid
+    // Prices attach to the latest active product of the group
+    const product = [...this.state.products.values()]
+      .reverse()
+      .find((candidate) => candidate.productGroup === body.productGroup && !candidate.isArchived)
+    if (!product) return notFound('Product group', body.productGroup)
+    if (body.slug && this.pricesOf(product.id).some(({ slug }) => slug === body.slug)) {
+      return conflict(`Product ${product.slug} already has a price with slug ${body.slug}`)
+    }
+
+    const price: ProductPrice = {
+      id: this.nextId('price'),
+      slug: body.slug ?? null,
+      name: body.name ?? null,
+      description: body.description ?? null,
+      priceAmount: body.price,
+      priceCurrency: body.priceCurrency,
+      isDefault: body.isDefault ?? false,
+      recurringInterval: body.recurringInterval ?? null,
+      isArchived: false,
+      currencyOptions: body.currencyOptions ?? null,
+    }
+    if (price.isDefault) {
+      for (const other of this.pricesOf(product.id)) other.isDefault = false
+    }
+    this.state.prices.set(price.id, price)
+    this.state.priceProducts.set(price.id, product.id)
+    return ok({ productPriceId: price.id })
+  }
+
+  private updatePrice(priceId: string, body: UpdatePriceRequest): Reply {
+    const price = this.state.prices.get(priceId)
+    if (!price) return notFound('Price', priceId)
+    if (body.isDefault && price.isArchived) {
+      return fail(400, 'bad_request', `Price ${priceId} is archived and cannot be the default`)
+    }
+
+    if (body.isDefault) {
+      for (const other of this.pricesOf(this.state.priceProducts.get(priceId)!)) other.isDefault = false
+    }
+    Object.assign(price, defined({ name: body.name, description: body.description, isDefault: body.isDefault }))
+    return ok(price)
+  }
+
+  private archivePrice(priceId: string): Reply {
+    const price = this.state.prices.get(priceId)
+    if (!price) return notFound('Price', priceId)
+    Object.assign(price, { isArchived: true, isDefault: false })
+    return ok(price)
+  }
+
+  private findProductBySlug(slug: string): Product | undefined {
+    return [...this.state.products.values()].find((product) => product.slug === slug && !product.isArchived)
+  }
+
+  private pricesOf(productId: string): ProductPrice[] {
+    return [...this.state.prices.values()].filter((price) => this.state.priceProducts.get(price.id) === productId)
+  }
+
+  // ==========================================================================
+  // Checkout & Portal
+  // ==========================================================================
+
+  private createCheckout(body: CreateCheckoutRequest): Reply {
+    const invalid = missingFields(body, ['productId'])
+    if (invalid) return invalid
+    const product = this.state.products.get(body.productId)
+    if (!product) return notFound('Product', body.productId)
+    if (product.isArchived) {
+      return fail(400, 'bad_request', `Product ${product.id} is archived`)
+    }
+
+    const prices = this.pricesOf(product.id)
+    const active = prices.filter(({ isArchived }) => !isArchived)
+    const price = body.priceId
+      ? prices.find(({ id }) => id === body.priceId)
+      : (active.find(({ isDefault }) => isDefault) ?? active[0])
+    if (body.priceId && !price) {
+      return notFound('Price', `${body.priceId} of product ${product.id}`)
+    }
+    if (price?.isArchived) {
+      return fail(400, 'bad_request', `Price ${price.id} is archived`)
+    }
+    const currencies = price ? [price.priceCurrency, ...Object.keys(price.currencyOptions ?? {})] : []
+    if (price && body.currency && !currencies.includes(body.currency)) {
+      return fail(400, 'bad_request', `Price ${price.id} is not offered in ${body.currency}`)
+    }
+    const mode = body.mode ?? (price?.recurringInterval ? 'subscription' : 'payment')
+    if (!price && mode !== 'setup') {
+      return fail(400, 'bad_request', `Product ${product.id} has no prices`)
+    }
+
+    const id = this.nextId('cs')
+    const session: CheckoutSession = {
+      id,
+      sessionId: id,
+      purchaseUrl: `${MOCK_ORIGIN}/checkout/${id}`,
+      status: 'open',
+      mode,
+      customerId: body.customerId ?? null,
+      productId: product.id,
+      priceId: price?.id ?? null,
+      quantity: body.quantity ?? 1,
+      metadata: body.metadata ?? null,
+      currency: price ? (body.currency ?? price.priceCurrency) : null,
+      expiresAt: later(CHECKOUT_TTL_MS),
+      completedAt: null,
+    }
+    this.state.checkouts.set(id, { session, request: body })
+    return ok(session)
+  }
+
+  private getCheckout(sessionId: string): Reply {
+    const checkout = this.state.checkouts.get(sessionId)
+    return checkout ? ok(checkout.session) : notFound('Checkout session', sessionId)
+  }
+
+  private expireCheckout(sessionId: string): Reply {
+    const checkout = this.state.checkouts.get(sessionId)
+    if (!checkout) return notFound('Checkout session', sessionId)
+    if (checkout.session.status !== 'open') {
+      return conflict(`Checkout session ${sessionId} is ${checkout.session.status}`)
+    }
+    checkout.session.status = 'expired'
+    return ok(checkout.session)
+  }
+
+  private createPortalSession(body: CreatePortalSessionRequest): Reply {
+    const invalid = missingFields(body, ['customerId'])
+    if (invalid) return invalid
+    if (!this.state.customers.has(body.customerId)) return notFound('Customer', body.customerId)
+
+    const id = this.nextId('bps')
+    return ok({ id, customerId: body.customerId, url: `${MOCK_ORIGIN}/portal/${id}`, expiresAt: later(PORTAL_TTL_MS) })
+  }
+
+  // ==========================================================================
+  // Access & Usage
+  // ==========================================================================
+
+  private check(body: CheckRequest): Reply {
+    const invalid = missingFields(body, ['customerId'])
+    if (invalid) return invalid
+    const { customerId, productId, featureId, quantity = 1 } = body
+    if (!productId && !featureId) {
+      return fail(422, 'validation_error', 'Invalid request: productId or featureId is required')
+    }
+
+    const owned = this.ownedProducts(customerId)
+    if (!featureId) {
+      return ok({ allowed: owned.some(({ id }) => id === productId), productId })
+    }
+
+    const grant = owned
+      .filter(({ id }) => !productId || id === productId)
+      .flatMap((product) => (product.features ?? []).map((feature) => ({ product, feature })))
+      .find(({ feature }) => feature.id === featureId)
+    if (!grant) {
+      return ok({ allowed: false, productId: null, limit: null, used: null, remaining: null })
+    }
+    const usage = this.featureUsage(customerId, grant.feature)
+    return ok({
+      allowed: usage.remaining === null || usage.remaining >= quantity,
+      productId: grant.product.id,
+      limit: usage.limit,
+      used: usage.used,
+      remaining: usage.remaining,
+    })
+  }
+
+  private listEntitlements(customerId: string): Reply {
+    const entitlements = this.ownedProducts(customerId).flatMap((product) =>
+      (product.features ?? []).map((feature): Entitlement => {
+        const { limit, used, remaining } = this.featureUsage(customerId, feature)
+        const featureName = feature.name ?? null
+        return { featureId: feature.id, featureName, productId: product.id, limit, used, remaining }
+      })
+    )
+    return ok(entitlements)
+  }
+
+  private recordUsage(body: RecordUsageRequest): Reply {
+    const invalid = missingFields(body, ['customerId', 'featureId', 'quantity'])
+    if (invalid) return invalid
+    if (!this.state.customers.has(body.customerId)) return notFound('Customer', body.customerId)
+
+    const record: UsageRecord = {
+      id: this.nextId('usage'),
+      customerId: body.customerId,
+      featureId: body.featureId,
+      quantity: body.quantity,
+      timestamp: typeof body.timestamp === 'string' ? body.timestamp : now(),
+    }
+    this.state.usage.push(record)
+    return ok(record)
+  }
+
+  private usageSummary(customerId: string): Reply {
+    if (!this.state.customers.has(customerId)) return notFound('Customer', customerId)
+    const features = new Map<string, FeatureUsage>()
+    for (const product of this.ownedProducts(customerId)) {
+      for (const feature of product.features ?? []) {
+        const metered = feature.limit != null || feature.resetInterval != null
+        if (metered && !features.has(feature.id)) {
+          features.set(feature.id, this.featureUsage(customerId, feature))
+        }
+      }
+    }
+    return ok({ customerId, features: [...features.values()] })
+  }
+
+  /** Products granted by an active subscription or by a one-time payment that was not fully refunded. */
+  private ownedProducts(customerId: string): Product[] {
+    const productIds = new Set<string | null | undefined>()
+    for (const subscription of this.state.subscriptions.values()) {
+      if (subscription.customerId === customerId && ACCESS_STATUSES.includes(subscription.status)) {
+        productIds.add(subscription.productId)
+      }
+    }
+    for (const transactionId of this.state.purchases) {
+      const payment = this.state.transactions.get(transactionId)!
+      if (payment.customerId === customerId && (payment.amountRefunded ?? 0) < payment.amount) {
+        productIds.add(payment.productId)
+      }
+    }
+    return [...this.state.products.values()].filter(({ id }) => productIds.has(id))
+  }
+
+  /** Usage is counted over all recorded usage; the mock does not reset allowances per period. */
+  private featureUsage(customerId: string, feature: ProductFeature): FeatureUsage {
+    const used = this.state.usage
+      .filter((record) => record.customerId === customerId && record.featureId === feature.id)
+      .reduce((total, record) => total + record.quantity, 0)
+    const limit = feature.limit ?? null
+    return { featureId: feature.id, used, limit, remaining: limit === null ? null : Math.max(0, limit - used) }
+  }
+
+  // ==========================================================================
+  // Customers
+  // ==========================================================================
+
+  private createCustomer(body: CreateCustomerRequest): Reply {
+    if (body.externalId && this.findCustomerByExternalId(body.externalId)) {
+      return conflict(`A customer with externalId ${body.externalId} already exists`)
+    }
+    return ok(this.insertCustomer(body))
+  }
+
+  private insertCustomer(fields: CreateCustomerRequest, id = this.nextId('cus')): Customer {
+    const customer: Customer = {
+      id,
+      projectId: PROJECT.id,
+      externalId: fields.externalId ?? null,
+      processorCustomerId: null,
+      email: fields.email ?? null,
+      name: fields.name ?? null,
+    }
+    this.state.customers.set(customer.id, customer)
+    return customer
+  }
+
+  private getCustomer(customerId: string): Reply {
+    const customer = this.state.customers.get(customerId)
+    if (!customer) return notFound('Customer', customerId)
+
+    const details: CustomerWithDetails = {
+      ...customer,
+      transactions: [...this.state.transactions.values()]
+        .filter((transaction) => transaction.customerId === customerId)
+        .map(({ id, createdAt, type, amount, currency }) => ({ id, createdAt, type, amount, currency })),
+      subscriptions: [...this.state.subscriptions.values()]
+        .filter((subscription) => subscription.customerId === customerId)
+        .map(({ id, createdAt, status, currentPeriodStart, currentPeriodEnd }) => ({
+          id,
+          createdAt,
+          status,
+          // The summary's period fields are optional but not nullable
+          ...defined({
+            currentPeriodStart: currentPeriodStart ?? undefined,
+            currentPeriodEnd: currentPeriodEnd ?? undefined,
+          }),
+        })),
+    }
+    return ok(details)
+  }
+
+  private getCustomerByExternalId(externalId: string): Reply {
+    const customer = this.findCustomerByExternalId(externalId)
+    return customer ? ok(customer) : notFound('Customer with externalId', externalId)
+  }
+
+  private updateCustomer(customerId: string, body: UpdateCustomerRequest): Reply {
+    const customer = this.state.customers.get(customerId)
+    if (!customer) return notFound('Customer', customerId)
+    const existing = body.externalId ? this.findCustomerByExternalId(body.externalId) : undefined
+    if (existing && existing.id !== customerId) {
+      return conflict(`A customer with externalId ${body.externalId} already exists`)
+    }
+
+    Object.assign(customer, defined(body))
+    return ok(customer)
+  }
+
+  private findCustomerByExternalId(externalId: string): Customer | undefined {
+    return [...this.state.customers.values()].find((customer) => customer.externalId === externalId)
+  }
+
+  // ==========================================================================
+  // Subscriptions
+  // ==========================================================================
+
+  private listSubscriptions(query: URLSearchParams): Reply {
+    const customerId = query.get('customerId')
+    const statuses = listFilter(query, 'status')
+    const subscriptions = [...this.state.subscriptions.values()].filter(
+      (subscription) =>
+        (!customerId || subscription.customerId === customerId) &&
+        (!statuses || statuses.includes(subscription.status))
+    )
+    return paginate(subscriptions, query, byId)
+  }
+
+  private cancelSubscription(subscriptionId: string, body: CancelSubscriptionRequest): Reply {
+    const subscription = this.state.subscriptions.get(subscriptionId)
+    if (!subscription) return notFound('Subscription', subscriptionId)
+    if (subscription.status === 'canceled') {
+      return conflict(`Subscription ${subscriptionId} is already canceled`)
+    }
+
+    const canceledAt = now()
+    if (body.atPeriodEnd === false) {
+      Object.assign(subscription, { status: 'canceled', canceledAt, endedAt: canceledAt, cancelAtPeriodEnd: false })
+    } else {
+      Object.assign(subscription, { canceledAt, cancelAtPeriodEnd: true })
+    }
+    return ok(subscription)
+  }
+
+  private resumeSubscription(subscriptionId: string): Reply {
+    const subscription = this.state.subscriptions.get(subscriptionId)
+    if (!subscription) return notFound('Subscription', subscriptionId)
+    if (!subscription.cancelAtPeriodEnd) {
+      return conflict(`Subscription ${subscriptionId} is not scheduled to cancel`)
+    }
+
+    Object.assign(subscription, { canceledAt: null, cancelAtPeriodEnd: false })
+    return ok(subscription)
+  }
+
+  private changeSubscriptionPrice(subscriptionId: string, body: ChangeSubscriptionPriceRequest): Reply {
+    const invalid = missingFields(body, ['priceId'])
+    if (invalid) return invalid
+    const subscription = this.state.subscriptions.get(subscriptionId)
+    if (!subscription) return notFound('Subscription', subscriptionId)
+    if (subscription.status === 'canceled') {
+      return conflict(`Subscription ${subscriptionId} is canceled`)
+    }
+    const price = this.state.prices.get(body.priceId)
+    if (!price) return notFound('Price', body.priceId)
+    if (!price.recurringInterval) {
+      return fail(400, 'bad_request', `Price ${price.id} is not recurring`)
+    }
+    if (price.isArchived) {
+      return fail(400, 'bad_request', `Price ${price.id} is archived`)
+    }
+
+    Object.assign(subscription, { productPriceId: price.id, productId: this.state.priceProducts.get(price.id) })
+    return ok(subscription)
+  }
+
+  // ==========================================================================
+  // Transactions
+  // ==========================================================================
+
+  private listTransactions(query: URLSearchParams): Reply {
+    const types = listFilter(query, 'type')
+    const customerId = query.get('customerId')
+    const productId = query.get('productId')
+    const after = query.get('createdAfter')
+    const before = query.get('createdBefore')
+    const transactions = [...this.state.transactions.values()].filter(
+      (transaction) =>
+        (!types || types.includes(transaction.type)) &&
+        (!customerId || transaction.customerId === customerId) &&
+        (!productId || transaction.productId === productId) &&
+        (!after || Date.parse(transaction.createdAt) >= Date.parse(after)) &&
+        (!before || Date.parse(transaction.createdAt) < Date.parse(before))
+    )
+    return paginate(transactions, query, byId)
+  }
+
+  private refundTransaction(transactionId: string, body: RefundTransactionRequest): Reply {
+    const original = this.state.transactions.get(transactionId)
+    if (!original) return notFound('Transaction', transactionId)
+    if (original.type !== 'payment') {
+      return fail(400, 'bad_request', `Transaction ${transactionId} is a ${original.type}, not a payment`)
+    }
+    const refundable = original.amount - (original.amountRefunded ?? 0)
+    if (refundable <= 0) {
+      return conflict(`Transaction ${transactionId} is already fully refunded`)
+    }
+    const amount = body.amount ?? refundable
+    if (amount > refundable) {
+      return fail(400, 'bad_request', `Refund amount ${amount} exceeds the refundable amount ${refundable}`)
+    }
+
+    const refundedAt = now()
+    Object.assign(original, { amountRefunded: (original.amountRefunded ?? 0) + amount, refundedAt })
+    const refund = this.insertTransaction({
+      type: 'refund',
+      amount,
+      currency: original.currency,
+      customerId: original.customerId,
+      productId: original.productId,
+      originalTransactionId: original.id,
+    })
+    return ok(refund)
+  }
+
+  private insertTransaction(
+    fields: Pick<Transaction, 'type' | 'amount' | 'currency' | 'customerId' | 'productId' | 'originalTransactionId'>
+  ): Transaction {
+    const createdAt = now()
+    const transaction: Transaction = {
+      id: this.nextId('txn'),
+      createdAt,
+      processor: 'mock',
+      succeededAt: createdAt,
+      refundedAt: null,
+      amountRefunded: fields.type === 'payment' ? 0 : null,
+      originalTransactionId: null,
+      ...fields,
+    }
+    this.state.transactions.set(transaction.id, transaction)
+    return transaction
+  }
+
+  // ==========================================================================
+  // Accounts
+  // ==========================================================================
+
+  private connectAccount(body: ConnectAccountRequest): Reply {
+    const processorAccountId = this.nextId('biz')
+    const account: ConnectedAccount = {
+      id: this.nextId('acct'),
+      processor: 'whop',
+      status: 'pending',
+      country: body.country ?? 'US',
+      currency: 'USD',
+      detailsSubmitted: false,
+      chargesEnabled: false,
+      payoutsEnabled: false,
+      businessType: body.businessType ?? null,
+      processorAccountId,
+    }
+    this.state.accounts.set(account.id, account)
+    return ok({
+      id: account.id,
+      accountId: account.id,
+      processorAccountId,
+      status: account.status,
+      companyId: this.nextId('company'),
+      title: body.title ?? body.companyName ?? '',
+    })
+  }
+}
@@ -5,14 +5,35 @@
  * We use camelCase to match the API directly.
  */
 
+import type { SurpayError } from './errors.js'
+
 // ============================================================================
 // Result Pattern Types
 // ============================================================================
 
-export type Success<T> = { data: T; error: null; statusCode: number }
-export type Failure<E> = { data: null; error: E; statusCode: number }
+/** `attempts` is set on results of HTTP requests and counts every fetch made, including retries. */
+export type Success<T> = { data: T; error: null; statusCode: number; attempts?: number }
+export type Failure<E> = { data: null; error: E; statusCode: number; attempts?: number }
 export type Result<T, E = unknown> = Success<T> | Failure<E>
 
+// ============================================================================
+// Pagination
+// ============================================================================
+
+export interface PaginationParams {
+  /** Maximum number of items to return in one page */
+  limit?: number
+  /** Cursor from a previous page's `nextCursor`; returns items after it */
+  startingAfter?: string
+}
+
+export interface Page<T> {
+  data: T[]
+  hasMore: boolean
+  /** Pass as `startingAfter` to fetch the next page. Null on the last page. */
+  nextCursor: string | null
+}
+
 // ============================================================================
 // Enums (as union types)
 // ============================================================================
@@ -28,10 +49,17 @@ export type SubscriptionStatus =
 
 export type RecurringInterval = 'day' | 'week' | 'month' | 'year'
 
+export type ProrationBehavior = 'create_prorations' | 'always_invoice' | 'none'
+
 export type TransactionType = 'payment' | 'processor_fee' | 'refund' | 'dispute' | 'balance' | 'payout'
 
-export type CheckoutStatus = 'creating' | 'open' | 'completed' | 'failed'
-export type CheckoutMode = 'payment'
+export type CheckoutStatus = 'creating' | 'open' | 'completed' | 'failed' | 'expired'
+/**
+ * - 'payment': one-time payment
+ * - 'subscription': start a recurring subscription
+ * - 'setup': collect a payment method for later use without charging
+ */
+export type CheckoutMode = 'payment' | 'subscription' | 'setup'
 
 export type PayoutStatus = 'paid' | 'pending' | 'in_transit' | 'canceled' | 'failed'
 
@@ -81,16 +109,50 @@ export interface CustomerWithDetails extends Customer {
   subscriptions: SubscriptionSummary[]
 }
 
+export interface CreateCustomerRequest {
+  /** Your own identifier for the customer, e.g. your user ID. Must be unique within the project. */
+  externalId?: string
+  email?: string
+  name?: string
+}
+
+export interface UpdateCustomerRequest {
+  externalId?: string
+  email?: string | null
+  name?: string | null
+}
+
+export interface UpsertCustomerRequest {
+  externalId: string
+  email?: string
+  name?: string
+}
+
 // ============================================================================
 // Product
 // ============================================================================
 
+/**
+ * A named capability granted by a product, e.g. `'api_calls'` or `'sso'`.
+ * Customers owning the product are entitled to the feature.
+ */
+export interface ProductFeature {
+  /** Stable identifier used in `check({ featureId })` and `usage.record()` */
+  id: string
+  name?: string | null
+  /** Usage allowance per period for metered features. Null or omitted for unlimited/boolean features. */
+  limit?: number | null
+  /** How often the usage allowance resets. Omitted for non-metered features. */
+  resetInterval?: RecurringInterval | null
+}
+
 export interface CreateProductRequest {
   productGroup: string
   name: string
   description?: string
   isDefault?: boolean
   slug: string
+  features?: ProductFeature[]
 }
 
 export interface CreateProductResponse {
@@ -105,6 +167,8 @@ export interface UpdateProductRequest {
   slug?: string
   isDefault?: boolean
   isArchived?: boolean
+  /** Replaces the product's feature list */
+  features?: ProductFeature[]
 }
 
 export interface UpdateProductResponse {
@@ -123,6 +187,7 @@ export interface Product {
   isDefault?: boolean | null
   processorProductId?: string | null
   projectId: string
+  features?: ProductFeature[] | null
   version?: number | null
 }
 
@@ -139,20 +204,43 @@ export interface CreatePriceRequest {
   priceCurrency: string
   recurringInterval?: RecurringInterval
   slug?: string | null
+  /**
+   * Amounts in other currencies, in their minor units, keyed by ISO 4217 code, e.g. `{ EUR: 1800 }`.
+   * The customer pays in one of them when the checkout asks for that `currency`.
+   */
+  currencyOptions?: Record<string, number>
 }
 
 export interface CreatePriceResponse {
   productPriceId: string
 }
 
+export interface ListPricesParams extends PaginationParams {
+  productId: string
+}
+
+/** Amounts, currencies and intervals are fixed; create a new price to change them. */
+export interface UpdatePriceRequest {
+  name?: string
+  description?: string
+  /** Makes this the product's default price, unsetting the previous default */
+  isDefault?: boolean
+}
+
 export interface ProductPrice {
   id: string
+  /** Slug given at creation, unique within the product */
+  slug?: string | null
   name?: string | null
   description?: string | null
   priceAmount: number
   priceCurrency: string
   isDefault?: boolean | null
   recurringInterval?: RecurringInterval | null
+  /** Archived prices stay on existing subscriptions but cannot be used for new checkouts */
+  isArchived?: boolean | null
+  /** Amounts in other currencies than `priceCurrency`, keyed by ISO 4217 code */
+  currencyOptions?: Record<string, number> | null
 }
 
 export interface ProductWithPrices {
@@ -160,6 +248,104 @@ export interface ProductWithPrices {
   prices: ProductPrice[]
 }
 
+// ============================================================================
+// Catalog
+// ============================================================================
+
+export interface CatalogPriceDefinition {
+  /** Amount in minor units (cents) */
+  amount: number
+  /** Three-letter ISO 4217 code, e.g. 'USD' */
+  currency: string
+  /** Billing interval for recurring prices. Omit for one-time prices. */
+  interval?: RecurringInterval
+  name?: string
+  description?: string
+  isDefault?: boolean
+  /** Amounts in other currencies, keyed by ISO 4217 code, e.g. `{ EUR: 1800 }` */
+  currencyOptions?: Record<string, number>
+}
+
+/** Fields left undefined are not compared, so values set elsewhere (e.g. in the dashboard) are kept. */
+export interface CatalogProductDefinition {
+  /** Default: the product's slug */
+  productGroup?: string
+  name: string
+  description?: string
+  isDefault?: boolean
+  features?: ProductFeature[]
+  /** Prices keyed by slug */
+  prices?: Record<string, CatalogPriceDefinition>
+}
+
+/**
+ * Desired state of the product catalog, e.g. loaded from a JSON file checked into the repository.
+ *
+ * @example
+ * const catalog: CatalogDefinition = {
+ *   products: {
+ *     pro: {
+ *       name: 'Pro',
+ *       features: [{ id: 'api_calls', limit: 10000, resetInterval: 'month' }],
+ *       prices: {
+ *         'pro-monthly': { amount: 2000, currency: 'USD', interval: 'month', isDefault: true },
+ *         'pro-yearly': { amount: 20000, currency: 'USD', interval: 'year' },
+ *       },
+ *     },
+ *   },
+ * }
+ */
+export interface CatalogDefinition {
+  /** Products keyed by slug */
+  products: Record<string, CatalogProductDefinition>
+}
+
+export interface SyncCatalogOptions {
+  /** Only compute the plan; every change is returned as `pending`. Default: false */
+  dryRun?: boolean
+  /**
+   * Archive active products whose slug is not in the definition, and active prices of defined products
+   * that none of their price definitions match. Default: false
+   */
+  archiveMissing?: boolean
+}
+
+export type CatalogAction =
+  | 'create_product'
+  | 'update_product'
+  | 'archive_product'
+  | 'create_price'
+  | 'update_price'
+  | 'archive_price'
+
+/**
+ * - 'pending': planned but not applied (dry run)
+ * - 'applied': the API call succeeded
+ * - 'failed': the API call failed or the change is not supported; see `error`
+ * - 'skipped': not attempted because the product it belongs to could not be created
+ */
+export type CatalogChangeStatus = 'pending' | 'applied' | 'failed' | 'skipped'
+
+export interface CatalogChange {
+  action: CatalogAction
+  /** Slug of the product */
+  product: string
+  /** Slug of the price, for price actions. The ID for archived prices that were created without a slug. */
+  price?: string
+  /** Names of the fields that differ, for updates */
+  fields?: string[]
+  /** Human-readable description, e.g. `Create price pro-monthly (2000 USD/month) of product pro` */
+  summary: string
+  status: CatalogChangeStatus
+  error: SurpayError | null
+}
+
+export interface CatalogSyncResult {
+  dryRun: boolean
+  /** Changes in the order they are applied. Empty when the catalog already matches. */
+  changes: CatalogChange[]
+}
+
 // ============================================================================
 // Checkout
 // ============================================================================
@@ -167,30 +353,158 @@ export interface ProductWithPrices {
 export interface CreateCheckoutRequest {
   productId: string
   priceId?: string
+  /** Inferred from the price when omitted */
+  mode?: CheckoutMode
   successUrl?: string
+  /** Where the customer is sent if they leave the checkout without paying */
+  cancelUrl?: string
   customerId?: string
   customerEmail?: string
   customerName?: string
+  /** Number of units to purchase. Default: 1 */
+  quantity?: number
+  /** Start subscriptions with a free trial of this many days */
+  trialDays?: number
+  /** Let the customer enter a promotion code on the checkout page */
+  allowPromotionCodes?: boolean
+  /** Promotion code to apply up front */
+  promotionCode?: string
+  /** Arbitrary key/value pairs stored on the session and echoed in webhook events */
+  metadata?: Record<string, string>
+  /** Charge the price in this currency, one of its `priceCurrency` and `currencyOptions`. Default: `priceCurrency` */
+  currency?: string
 }
 
 export interface CreateCheckoutResponse {
   id: string
   sessionId: string
   purchaseUrl: string | null
-  status: string
+  status: CheckoutStatus
+}
+
+export interface CheckoutSession extends CreateCheckoutResponse {
+  mode?: CheckoutMode | null
+  customerId?: string | null
+  productId?: string | null
+  priceId?: string | null
+  quantity?: number | null
+  metadata?: Record<string, string> | null
+  /** Currency the customer is charged in */
+  currency?: string | null
+  expiresAt?: string | null
+  completedAt?: string | null
+}
+
+export interface WaitForCheckoutOptions {
+  /** Give up after this many milliseconds. Default: 300000 (5 minutes) */
+  timeoutMs?: number
+  /** Delay between status checks. Default: 2000 */
+  intervalMs?: number
 }
 
 // ============================================================================
-// Check
+// Customer Portal
 // ============================================================================
 
-export interface CheckRequest {
+export interface CreatePortalSessionRequest {
   customerId: string
-  productId: string
+  /** Where the "back" link of the portal sends the customer */
+  returnUrl?: string
 }
 
+export interface PortalSession {
+  id: string
+  customerId: string
+  /** Hosted portal URL to redirect the customer to */
+  url: string
+  expiresAt?: string | null
+}
+
+// ============================================================================
+// Check
+// ============================================================================
+
+/**
+ * Check access to a product, or to a feature regardless of which product grants it.
+ * At least one of `productId` and `featureId` is required.
+ */
+export type CheckRequest = {
+  customerId: string
+  /**
+   * Units the caller is about to consume. For metered features, `allowed` is false
+   * when the remaining balance is lower than this. Default: 1
+   */
+  quantity?: number
+} & ({ productId: string; featureId?: string } | { featureId: string; productId?: string })
+
 export interface CheckResponse {
   allowed: boolean
+  /** For feature checks, the product that grants the feature (if any) */
+  productId?: string | null
+  /** Usage allowance for the current period. Null when the feature is unlimited or not metered. */
+  limit?: number | null
+  /** Units consumed in the current period */
+  used?: number | null
+  /** `limit - used`, never negative. Null when the feature is unlimited or not metered. */
+  remaining?: number | null
+}
+
+// ============================================================================
+// Entitlements
+// ============================================================================
+
+/** A feature a customer currently has access to, and the product that grants it. */
+export interface Entitlement {
+  featureId: string
+  featureName?: string | null
+  productId: string
+  /** Null when the feature is unlimited or not metered */
+  limit: number | null
+  used?: number | null
+  remaining: number | null
+  /** When the current usage period resets, for metered features */
+  resetsAt?: string | null
+}
+
+// ============================================================================
+// Usage
+// ============================================================================
+
+export interface RecordUsageRequest {
+  customerId: string
+  featureId: string
+  /** Units consumed; must be a positive number */
+  quantity: number
+  /** When the usage happened (Date or ISO 8601 string). Default: now */
+  timestamp?: Date | string
+  /**
+   * Deduplicates reports of the same usage event, e.g. when your job retries.
+   * Sent as the `Idempotency-Key` header.
+   */
+  idempotencyKey?: string
+}
+
+export interface UsageRecord {
+  id: string
+  customerId: string
+  featureId: string
+  quantity: number
+  timestamp: string
+}
+
+export interface FeatureUsage {
+  featureId: string
+  used: number
+  /** Null when the feature is unlimited */
+  limit: number | null
+  remaining: number | null
+  periodStart?: string | null
+  periodEnd?: string | null
+}
+
+export interface UsageSummary {
+  customerId: string
+  features: FeatureUsage[]
 }
 
 // ============================================================================
@@ -208,6 +522,28 @@ export interface Transaction {
   productId?: string | null
   succeededAt?: string | null
   refundedAt?: string | null
+  /** Total amount already refunded from this payment, in minor units */
+  amountRefunded?: number | null
+  /** For `refund` transactions, the payment transaction that was refunded */
+  originalTransactionId?: string | null
+}
+
+export interface RefundTransactionRequest {
+  /** Amount to refund in minor units. Omit to refund the full remaining amount. */
+  amount?: number
+  /** Free-text reason, shown in the dashboard */
+  reason?: string
+}
+
+export interface ListTransactionsParams extends PaginationParams {
+  /** One type or several; matches transactions of any of them */
+  type?: TransactionType | TransactionType[]
+  customerId?: string
+  productId?: string
+  /** Only transactions created at or after this instant (Date or ISO 8601 string) */
+  createdAfter?: Date | string
+  /** Only transactions created before this instant (Date or ISO 8601 string) */
+  createdBefore?: Date | string
 }
 
 // ============================================================================
@@ -228,6 +564,29 @@ export interface Subscription {
   currentPeriodEnd?: string | null
   canceledAt?: string | null
   endedAt?: string | null
+  /** True when the subscription is set to cancel at the end of the current period and can still be resumed */
+  cancelAtPeriodEnd?: boolean | null
+}
+
+export interface CancelSubscriptionRequest {
+  /**
+   * Keep the subscription active until `currentPeriodEnd` instead of ending it now.
+   * Default: true
+   */
+  atPeriodEnd?: boolean
+}
+
+export interface ChangeSubscriptionPriceRequest {
+  /** The new `ProductPrice` to bill, e.g. switching from the monthly to the yearly price */
+  priceId: string
+  /** How to bill the difference for the current period. Default: 'create_prorations' */
+  proration?: ProrationBehavior
+}
+
+export interface ListSubscriptionsParams extends PaginationParams {
+  customerId?: string
+  /** One status or several; matches subscriptions in any of them */
+  status?: SubscriptionStatus | SubscriptionStatus[]
 }
 
 // ============================================================================
@@ -265,6 +624,46 @@ export interface ConnectedAccount {
   data?: Record<string, unknown>
 }
 
+// ============================================================================
+// Webhooks
+// ============================================================================
+
+export type WebhookEventType =
+  | 'checkout.completed'
+  | 'subscription.status_changed'
+  | 'transaction.succeeded'
+  | 'transaction.refunded'
+
+interface BaseWebhookEvent<TType extends WebhookEventType, TData> {
+  id: string
+  type: TType
+  createdAt: string
+  data: TData
+}
+
+export type CheckoutCompletedEvent = BaseWebhookEvent<'checkout.completed', CheckoutSession>
+
+export type SubscriptionStatusChangedEvent = BaseWebhookEvent<
+  'subscription.status_changed',
+  { subscription: Subscription; previousStatus: SubscriptionStatus | null }
+>
+
+export type TransactionSucceededEvent = BaseWebhookEvent<'transaction.succeeded', Transaction>
+
+export type TransactionRefundedEvent = BaseWebhookEvent<'transaction.refunded', Transaction>
+
+/** Discriminated union of all events delivered to webhook endpoints. Narrow on `type`. */
+export type WebhookEvent =
+  | CheckoutCompletedEvent
+  | SubscriptionStatusChangedEvent
+  | TransactionSucceededEvent
+  | TransactionRefundedEvent
+
+export interface ConstructEventOptions {
+  /** Maximum allowed age of the signature timestamp, in seconds. Default: 300 (5 minutes) */
+  toleranceSeconds?: number
+}
+
 // ============================================================================
 // SDK Configuration
 // ============================================================================
@@ -276,15 +675,150 @@ export interface ConnectedAccount {
  */
 export type ResponseCase = 'snake' | 'camel'
 
+/**
+ * Per-call options accepted as the trailing argument of every API method.
+ */
+export interface RequestOptions {
+  /**
+   * Sent as the `Idempotency-Key` header. Retrying a call with the same key returns the original
+   * result instead of creating a duplicate. Also makes POST requests eligible for automatic retries.
+   * Only used by mutating (POST/PUT) calls.
+   */
+  idempotencyKey?: string
+  /** Cancels the call, including pending retries. The result is then an `aborted` failure. */
+  signal?: AbortSignal
+  /** Overrides the client's per-attempt timeout for this call */
+  timeoutMs?: number
+  /** Extra headers sent with this call, applied over the client's default headers */
+  headers?: Record<string, string>
+}
+
+/**
+ * In-memory cache for `check()` and `products.listWithPrices()` results.
+ * Only successful results are cached.
+ */
+export interface CacheOptions {
+  /** Lifetime of cached `check()` results. Default: 60000 (1 minute) */
+  ttlMs?: number
+  /** Lifetime of cached `products.listWithPrices()` pages and product lookups. Default: `ttlMs` */
+  productsTtlMs?: number
+  /** Maximum number of entries; the least recently used entry is evicted first. Default: 1000 */
+  maxSize?: number
+}
+
+/**
+ * Retry policy for failed requests.
+ *
+ * GET, PUT and DELETE requests are retried whenever the failure is retryable.
+ * POST requests are only retried when an idempotency key is attached, so a retry can never create a duplicate.
+ */
+export interface RetryOptions {
+  /** Total number of attempts, including the first one. Set to 1 to disable retries. Default: 3 */
+  maxAttempts?: number
+  /** Delay before the first retry; doubles on each subsequent retry. Default: 500 */
+  baseDelayMs?: number
+  /**
+   * Upper bound for a single backoff delay. A 429 or 503 whose `Retry-After` asks for a longer wait is
+   * returned without retrying. Default: 10000
+   */
+  maxDelayMs?: number
+  /** Randomize each delay between 0 and the computed backoff (full jitter). Default: true */
+  jitter?: boolean
+  /** HTTP status codes that trigger a retry. Default: 408, 429, 500, 502, 503, 504 */
+  retryableStatusCodes?: number[]
+  /** SurpayError codes that trigger a retry. Default: 'network_error', 'timeout_error' */
+  retryableErrorCodes?: string[]
+}
+
+/** The subset of the `fetch` signature the SDK relies on. The global `fetch` satisfies it. */
+export type FetchFunction = (url: string, init: RequestInit) => Promise<Response>
+
+/**
+ * A single HTTP attempt as seen by middleware. Created fresh for every attempt, including retries.
+ */
+export interface RequestContext {
+  method: string
+  /** API path including the query string, e.g. `/customers?limit=10` */
+  path: string
+  /** Absolute URL the request is sent to */
+  url: string
+  /** Outgoing headers, with lowercase names. `onRequest` hooks may add, change or remove entries. */
+  headers: Record<string, string>
+  /** Request body before JSON serialization. `onRequest` hooks may replace it. */
+  body: unknown
+  /** 1 for the first attempt, incremented on each retry */
+  attempt: number
+  /** `Date.now()` when the attempt started (before any `onRequest` hook ran) */
+  startedAt: number
+  /** Elapsed time of the attempt in milliseconds. Set before `onResponse` / `onError` run. */
+  durationMs?: number
+}
+
+/**
+ * Hooks around every HTTP attempt.
+ *
+ * `onRequest` hooks run in registration order; returning a Result from one skips the remaining hooks
+ * and the network call, and that Result is used as the attempt's outcome (it may still be retried).
+ * `onResponse` and `onError` hooks run in reverse order, so the first middleware wraps all others.
+ * Returning a Result from them replaces the outcome seen by the next hook and by the caller;
+ * a successful Result returned from `onError` ends the chain.
+ */
+export interface SurpayMiddleware {
+  onRequest?: (context: RequestContext) => MiddlewareOutcome
+  /** Called with the parsed Result of every HTTP response, successful or not. */
+  onResponse?: (context: RequestContext, result: Result<unknown, SurpayError>, response: Response) => MiddlewareOutcome
+  /** Called when no response was received (network failure or timeout). */
+  onError?: (context: RequestContext, result: Failure<SurpayError>, cause: unknown) => MiddlewareOutcome
+}
+
+type MiddlewareOutcome =
+  | void
+  | Result<unknown, SurpayError>
+  | Promise<void | Result<unknown, SurpayError>>
+
+/**
+ * Options for `new Surpay()`. Validated by the constructor, which throws an `invalid_config` SurpayError
+ * naming the offending option.
+ */
 export interface SurpayConfig {
-  /** Your Surpay API key (64 alphabetic characters) */
+  /** Your Surpay API key (64 alphabetic characters). Fallback: `SURPAY_API_KEY` env var */
   apiKey?: string
-  /** Override the base URL (default: https://pay.surgent.dev) */
+  /** Override the base URL (default: https://pay.surgent.dev). Fallback: `SURPAY_BASE_URL` env var */
   baseUrl?: string
+  /** Per-attempt request timeout in milliseconds. Fallback: `SURPAY_TIMEOUT_MS` env var. Default: 30000 */
+  timeoutMs?: number
+  /**
+   * Retry policy for transient failures. `maxAttempts` falls back to the `SURPAY_MAX_ATTEMPTS` env var.
+   * Default: 3 attempts with exponential backoff
+   */
+  retry?: RetryOptions
+  /** Appended to the SDK's `User-Agent` header, e.g. `'my-app/1.2.0'` */
+  userAgent?: string
+  /**
+   * Validate every successful response against a runtime schema of its type. A response that does not match
+   * becomes a `response_validation_error` failure naming the offending field, e.g. `$.prices[0].priceAmount`,
+   * instead of being returned as malformed data. Extra fields are allowed. Default: false
+   */
+  strict?: boolean
   /**
    * Response key case format.
    * - 'camel' (default): Keep original camelCase keys from API (matches TypeScript types)
    * - 'snake': Transform to snake_case (legacy, deprecated)
    */
   responseCase?: ResponseCase
+  /**
+   * Generate an idempotency key for every POST/PUT call that does not pass one explicitly.
+   * The key is reused across automatic retries of that call. Default: false
+   */
+  autoIdempotencyKeys?: boolean
+  /**
+   * Cache `check()` and `products.listWithPrices()` results in memory. Pass `true` for defaults.
+   * A customer's entries are dropped after any mutating call or webhook event involving them,
+   * and product/price mutations clear the whole cache. Default: disabled
+   */
+  cache?: boolean | CacheOptions
+  /** Custom `fetch` implementation, e.g. for tests or runtimes without a global `fetch`. Default: `globalThis.fetch` */
+  fetch?: FetchFunction
+  /** Hooks run around every HTTP attempt, in order. See `SurpayMiddleware`. */
+  middleware?: SurpayMiddleware[]
 }
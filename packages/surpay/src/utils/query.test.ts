@@ -0,0 +1,23 @@
+import { describe, test, expect } from 'bun:test'
+import { toQueryString } from './query.js'
+
+describe('toQueryString', () => {
+  test('skips undefined and null values', () => {
+    expect(toQueryString({ limit: 10, startingAfter: undefined, status: null })).toBe('?limit=10')
+  })
+
+  test('returns an empty string without params', () => {
+    expect(toQueryString()).toBe('')
+    expect(toQueryString({})).toBe('')
+  })
+
+  test('comma-joins arrays and skips empty ones', () => {
+    expect(toQueryString({ status: ['active', 'trialing'], type: [] })).toBe('?status=active%2Ctrialing')
+  })
+
+  test('serializes dates as ISO 8601', () => {
+    expect(toQueryString({ createdAfter: new Date('2024-01-01T00:00:00Z') })).toBe(
+      '?createdAfter=2024-01-01T00%3A00%3A00.000Z'
+    )
+  })
+})
@@ -0,0 +1,30 @@
+/**
+ * Builds a query string from a flat params object.
+ *
+ * Skips undefined and null values and returns an empty string when no params remain,
+ * so the result can always be appended to a path. Arrays are comma-joined and
+ * dates are sent as ISO 8601 strings.
+ *
+ * @example
+ * toQueryString({ limit: 10, startingAfter: undefined }) // '?limit=10'
+ * toQueryString({ status: ['active', 'trialing'] }) // '?status=active%2Ctrialing'
+ * toQueryString({}) // ''
+ */
+export const toQueryString = (params?: object): string => {
+  if (!params) return ''
+
+  const search = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue
+    if (Array.isArray(value)) {
+      if (value.length > 0) search.append(key, value.join(','))
+    } else if (value instanceof Date) {
+      search.append(key, value.toISOString())
+    } else {
+      search.append(key, String(value))
+    }
+  }
+
+  const query = search.toString()
+  return query ? `?${query}` : ''
+}
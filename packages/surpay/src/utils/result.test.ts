@@ -0,0 +1,58 @@
+import { describe, test, expect } from 'bun:test'
+import { SurpayRateLimitError, SurpayValidationError } from '../errors.js'
+import { toResult, validationFailure } from './result.js'
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } })
+
+describe('toResult', () => {
+  test('reads the request ID, details and field errors of a failure', async () => {
+    const result = await toResult(
+      json(
+        422,
+        {
+          message: 'Invalid customer',
+          code: 'validation_error',
+          details: { hint: 'check email' },
+          fieldErrors: [{ field: 'email', message: 'must be an email' }],
+        },
+        { 'X-Request-Id': 'req_123' }
+      )
+    )
+
+    expect(result.error).toBeInstanceOf(SurpayValidationError)
+    expect(result.error).toMatchObject({
+      requestId: 'req_123',
+      details: { hint: 'check email' },
+      fieldErrors: [{ field: 'email', message: 'must be an email' }],
+    })
+  })
+
+  test('reads Retry-After into a rate limit error', async () => {
+    const result = await toResult(json(429, {}, { 'Retry-After': '3' }))
+
+    expect(result.error).toBeInstanceOf(SurpayRateLimitError)
+    expect((result.error as SurpayRateLimitError).retryAfter).toBe(3)
+    expect(result.error?.code).toBe('rate_limit_exceeded')
+  })
+
+  test.each([
+    [402, 'payment_required'],
+    [502, 'bad_gateway'],
+    [503, 'service_unavailable'],
+    [504, 'gateway_timeout'],
+  ])('maps status %i to %s when the body has no code', async (status, code) => {
+    const result = await toResult(new Response('<html>upstream error</html>', { status }))
+
+    expect(result.error?.code).toBe(code)
+  })
+})
+
+describe('validationFailure', () => {
+  test('returns a SurpayValidationError with field errors', () => {
+    const { error } = validationFailure('Invalid amount', [{ field: 'amount', message: 'must be positive' }])
+
+    expect(error).toBeInstanceOf(SurpayValidationError)
+    expect((error as SurpayValidationError).fieldErrors).toHaveLength(1)
+  })
+})
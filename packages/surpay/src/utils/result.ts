@@ -1,5 +1,6 @@
-import { SurpayError } from '../errors.js'
-import type { ResponseCase, Result } from '../types.js'
+import { SurpayError, SurpayValidationError, createSurpayError, type FieldError } from '../errors.js'
+import { validate, type Schema, type SchemaIssue } from '../schema.js'
+import type { Failure, ResponseCase, Result } from '../types.js'
 import { camelToSnake } from './case.js'
 
 /**
@@ -14,6 +15,40 @@ export interface ToResultOptions {
   responseCase?: ResponseCase
 }
 
+const REQUEST_ID_HEADER = 'X-Request-Id'
+
+/** Error body shape returned by the API. Every field is optional since proxies may return anything. */
+interface ErrorBody {
+  message?: string
+  code?: string
+  requestId?: string
+  details?: unknown
+  fieldErrors?: FieldError[]
+}
+
+/** Parses a Retry-After header (delta-seconds or HTTP date) into milliseconds. */
+export const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) return null
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+const EMPTY_BODY_ISSUE: SchemaIssue = { path: '$', message: 'expected a response body, got none' }
+
+const responseValidationFailure = (response: Response, issue: SchemaIssue): Failure<SurpayError> => ({
+  data: null,
+  error: new SurpayError({
+    message: `Response did not match the expected shape at ${issue.path}: ${issue.message}`,
+    code: 'response_validation_error',
+    statusCode: response.status,
+    requestId: response.headers.get(REQUEST_ID_HEADER),
+    details: issue,
+  }),
+  statusCode: response.status,
+})
+
 /**
  * Converts a fetch Response into a Result container.
  *
@@ -22,28 +57,37 @@ export interface ToResultOptions {
  *
  * By default, keeps camelCase keys from the API which match the SDK's TypeScript types.
  * Set responseCase to 'snake' for legacy snake_case transformation (deprecated).
+ *
+ * When a `schema` is given (strict mode), a successful body that does not match it becomes a
+ * `response_validation_error` failure whose message and `details` point at the offending field.
  */
 export const toResult = async <T>(
   response: Response,
-  options: ToResultOptions = {}
+  options: ToResultOptions = {},
+  schema?: Schema<T>
 ): Promise<Result<T, SurpayError>> => {
   const { responseCase = 'camel' } = options
   const statusCode = response.status
 
   if (statusCode < 200 || statusCode >= 300) {
-    let errorData: { message?: string; code?: string } = {}
+    let errorData: ErrorBody = {}
     try {
-      errorData = await response.json()
+      errorData = (await response.json()) ?? {}
     } catch {
       // Failed to parse error body
     }
 
+    const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'))
     return {
       data: null,
-      error: new SurpayError({
-        message: errorData?.message || `Request failed with status ${statusCode}`,
-        code: errorData?.code || statusToCode(statusCode),
+      error: createSurpayError({
+        message: errorData.message || `Request failed with status ${statusCode}`,
+        code: errorData.code || statusToCode(statusCode),
         statusCode,
+        requestId: response.headers.get(REQUEST_ID_HEADER) ?? errorData.requestId ?? null,
+        details: errorData.details,
+        fieldErrors: Array.isArray(errorData.fieldErrors) ? errorData.fieldErrors : undefined,
+        retryAfter: retryAfterMs === null ? null : retryAfterMs / 1000,
       }),
       statusCode,
     }
@@ -51,13 +95,13 @@ export const toResult = async <T>(
 
   // Handle 204 No Content
   if (statusCode === 204) {
-    return { data: {} as T, error: null, statusCode }
+    return schema ? responseValidationFailure(response, EMPTY_BODY_ISSUE) : { data: {} as T, error: null, statusCode }
   }
 
   // Parse successful response
   const text = await response.text()
   if (!text) {
-    return { data: {} as T, error: null, statusCode }
+    return schema ? responseValidationFailure(response, EMPTY_BODY_ISSUE) : { data: {} as T, error: null, statusCode }
   }
 
   let parsed: unknown
@@ -75,18 +119,43 @@ export const toResult = async <T>(
     }
   }
 
+  // Validate before any key transformation, since schemas describe the API's camelCase shape
+  const issue = schema ? validate(schema, parsed) : null
+  if (issue) {
+    return responseValidationFailure(response, issue)
+  }
+
   // Transform to snake_case only if explicitly requested (legacy behavior)
   const data = responseCase === 'snake' ? camelToSnake(parsed as T) : (parsed as T)
 
   return { data, error: null, statusCode }
 }
 
+/**
+ * Builds a `validation_error` Failure for input rejected on the client, before any request is sent.
+ * Uses statusCode 0 because no HTTP response exists.
+ */
+export const validationFailure = (message: string, fieldErrors?: FieldError[]): Failure<SurpayError> => ({
+  data: null,
+  error: new SurpayValidationError({ message, code: 'validation_error', statusCode: 0, fieldErrors }),
+  statusCode: 0,
+})
+
+/** Builds an `aborted` Failure for a call cancelled through the caller's `AbortSignal`. */
+export const abortedFailure = (): Failure<SurpayError> => ({
+  data: null,
+  error: new SurpayError({ message: 'Request was aborted', code: 'aborted', statusCode: 0 }),
+  statusCode: 0,
+})
+
 const statusToCode = (status: number): string => {
   switch (status) {
     case 400:
       return 'bad_request'
     case 401:
       return 'unauthorized'
+    case 402:
+      return 'payment_required'
     case 403:
       return 'forbidden'
     case 404:
@@ -99,6 +168,12 @@ const statusToCode = (status: number): string => {
       return 'rate_limit_exceeded'
     case 500:
       return 'internal_error'
+    case 502:
+      return 'bad_gateway'
+    case 503:
+      return 'service_unavailable'
+    case 504:
+      return 'gateway_timeout'
     default:
       return 'unknown_error'
   }
@@ -0,0 +1,97 @@
+import { describe, test, expect } from 'bun:test'
+import { SurpayValidationError } from './errors.js'
+import {
+  validateCheck,
+  validateCreateCheckout,
+  validateCreatePrice,
+  validateCreateProduct,
+  validatePagination,
+  validateRecordUsage,
+  validateUpsertCustomer,
+} from './validation.js'
+
+const fieldErrors = (result: { error: unknown } | null) => (result?.error as SurpayValidationError).fieldErrors
+
+describe('request validation', () => {
+  test('accepts valid requests', () => {
+    expect(
+      validateCreatePrice({ productGroup: 'pro', price: 2000, priceCurrency: 'USD', slug: 'pro-monthly' })
+    ).toBeNull()
+    expect(validateCreateCheckout({ productId: 'prod_1', successUrl: 'https://example.com/done' })).toBeNull()
+    expect(validateCheck({ customerId: 'cus_1', featureId: 'api_calls', quantity: 0.5 })).toBeNull()
+  })
+
+  test('rejects negative prices and lowercase currency codes', () => {
+    const result = validateCreatePrice({ productGroup: 'pro', price: -100, priceCurrency: 'usd' })
+
+    expect(result?.error).toBeInstanceOf(SurpayValidationError)
+    expect(result?.error.code).toBe('validation_error')
+    expect(result?.statusCode).toBe(0)
+    expect(fieldErrors(result).map((error) => error.field)).toEqual(['price', 'priceCurrency'])
+    expect(result?.error.message).toContain('priceCurrency must be a three-letter uppercase ISO 4217 currency code')
+  })
+
+  test('rejects zero prices', () => {
+    expect(fieldErrors(validateCreatePrice({ productGroup: 'pro', price: 0, priceCurrency: 'USD' }))).toEqual([
+      { field: 'price', message: 'must be a positive integer in minor units' },
+    ])
+  })
+
+  test('rejects fractional minor units', () => {
+    expect(fieldErrors(validateCreatePrice({ productGroup: 'pro', price: 9.99, priceCurrency: 'USD' }))).toEqual([
+      { field: 'price', message: 'must be a positive integer in minor units' },
+    ])
+  })
+
+  test('checks each currency option of a price', () => {
+    const result = validateCreatePrice({
+      productGroup: 'pro',
+      price: 2000,
+      priceCurrency: 'USD',
+      currencyOptions: { EUR: 1800, USD: 2000, gbp: 1600, JPY: -1 },
+    })
+
+    expect(fieldErrors(result)).toEqual([
+      { field: 'currencyOptions.USD', message: 'repeats priceCurrency' },
+      { field: 'currencyOptions.gbp', message: 'must be a three-letter uppercase ISO 4217 currency code, e.g. "USD"' },
+      { field: 'currencyOptions.JPY', message: 'must be a positive integer in minor units' },
+    ])
+  })
+
+  test('rejects slugs with spaces or uppercase letters', () => {
+    const result = validateCreateProduct({ productGroup: 'pro', name: 'Pro', slug: 'Pro Plan' })
+
+    expect(fieldErrors(result)).toEqual([
+      { field: 'slug', message: 'must contain only lowercase letters, digits, hyphens and underscores' },
+    ])
+  })
+
+  test('reports nested feature fields', () => {
+    const result = validateCreateProduct({
+      productGroup: 'pro',
+      name: 'Pro',
+      slug: 'pro',
+      features: [{ id: 'sso' }, { id: 'api_calls', limit: -1 }],
+    })
+
+    expect(fieldErrors(result).map((error) => error.field)).toEqual(['features[1].limit'])
+  })
+
+  test('rejects relative URLs and non-positive quantities at checkout', () => {
+    const result = validateCreateCheckout({ productId: 'prod_1', successUrl: '/done', quantity: 0 })
+
+    expect(fieldErrors(result).map((error) => error.field)).toEqual(['successUrl', 'quantity'])
+  })
+
+  test('reports missing required fields', () => {
+    expect(fieldErrors(validateUpsertCustomer({} as never))).toEqual([{ field: 'externalId', message: 'is required' }])
+    expect(fieldErrors(validateRecordUsage({ customerId: 'cus_1', featureId: 'f' } as never))[0]?.field).toBe(
+      'quantity'
+    )
+  })
+
+  test('rejects invalid page sizes', () => {
+    expect(validatePagination({ limit: 0 })?.error.code).toBe('validation_error')
+    expect(validatePagination({})).toBeNull()
+  })
+})
@@ -0,0 +1,232 @@
+/**
+ * Client-side validation of request bodies.
+ *
+ * Malformed input (a lowercase currency code, a negative amount, a slug with spaces, a relative URL)
+ * is rejected before the request is sent, with the same `validation_error` the API would return,
+ * so it costs no round trip. Apart from a few keys marked `required`, only fields that are present are
+ * checked; the API still enforces the rest.
+ */
+
+import type { SurpayError, FieldError } from './errors.js'
+import { validationFailure } from './utils/result.js'
+import type {
+  CheckRequest,
+  ConnectAccountRequest,
+  CreateCheckoutRequest,
+  CreateCustomerRequest,
+  CreatePortalSessionRequest,
+  CreatePriceRequest,
+  CreateProductRequest,
+  ChangeSubscriptionPriceRequest,
+  Failure,
+  ListPricesParams,
+  PaginationParams,
+  ProductFeature,
+  ProrationBehavior,
+  RecordUsageRequest,
+  RecurringInterval,
+  RefundTransactionRequest,
+  RequestOptions,
+  UpdateCustomerRequest,
+  UpdatePriceRequest,
+  UpdateProductRequest,
+  UpsertCustomerRequest,
+} from './types.js'
+
+/** Returns a description of what is wrong with a present (non-null) value, or null when it is valid. */
+type Rule = ((value: unknown) => string | null) & { required?: boolean }
+
+type FieldRules<T> = { [K in keyof T]?: Rule }
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/
+const COUNTRY_PATTERN = /^[A-Z]{2}$/
+const SLUG_PATTERN = /^[a-z0-9]+(?:[-_][a-z0-9]+)*$/
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+const RECURRING_INTERVALS: Record<RecurringInterval, true> = { day: true, week: true, month: true, year: true }
+const PRORATION_BEHAVIORS: Record<ProrationBehavior, true> = {
+  create_prorations: true,
+  always_invoice: true,
+  none: true,
+}
+
+/** Also reports the field when it is missing. Other rules only check fields that are present. */
+const required = (rule: Rule): Rule => Object.assign((value: unknown) => rule(value), { required: true })
+
+const text: Rule = (value) => (typeof value === 'string' && value.trim() !== '' ? null : 'must be a non-empty string')
+
+const slug: Rule = (value) =>
+  typeof value === 'string' && SLUG_PATTERN.test(value)
+    ? null
+    : 'must contain only lowercase letters, digits, hyphens and underscores'
+
+const currency: Rule = (value) =>
+  typeof value === 'string' && CURRENCY_PATTERN.test(value)
+    ? null
+    : 'must be a three-letter uppercase ISO 4217 currency code, e.g. "USD"'
+
+const country: Rule = (value) =>
+  typeof value === 'string' && COUNTRY_PATTERN.test(value)
+    ? null
+    : 'must be a two-letter uppercase ISO 3166 country code, e.g. "US"'
+
+const email: Rule = (value) =>
+  typeof value === 'string' && EMAIL_PATTERN.test(value) ? null : 'must be an email address'
+
+const url: Rule = (value) => {
+  try {
+    const { protocol } = new URL(String(value))
+    if (typeof value === 'string' && (protocol === 'http:' || protocol === 'https:')) return null
+  } catch {
+    // Reported below
+  }
+  return 'must be an absolute http(s) URL'
+}
+
+/** Amounts in minor units (cents). Prices must charge something, so zero is rejected. */
+const minorUnits: Rule = (value) =>
+  Number.isInteger(value) && (value as number) > 0 ? null : 'must be a positive integer in minor units'
+
+const positiveInteger: Rule = (value) =>
+  Number.isInteger(value) && (value as number) > 0 ? null : 'must be a positive integer'
+
+const positiveNumber: Rule = (value) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? null : 'must be a positive number'
+
+const date: Rule = (value) => {
+  const time = value instanceof Date ? value.getTime() : typeof value === 'string' ? Date.parse(value) : NaN
+  return Number.isNaN(time) ? 'must be a valid Date or ISO 8601 string' : null
+}
+
+const oneOf =
+  <T extends string>(values: Record<T, true>): Rule =>
+  (value) =>
+    typeof value === 'string' && Object.hasOwn(values, value)
+      ? null
+      : `must be one of: ${Object.keys(values).join(', ')}`
+
+const stringRecord: Rule = (value) =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Object.values(value).every((entry) => typeof entry === 'string')
+    ? null
+    : 'must be an object with string values'
+
+const featureRules: FieldRules<ProductFeature> = {
+  id: text,
+  limit: (value) => (Number.isInteger(value) && (value as number) >= 0 ? null : 'must be a non-negative integer'),
+  resetInterval: oneOf(RECURRING_INTERVALS),
+}
+
+const features: Rule = (value) => (Array.isArray(value) ? null : 'must be an array')
+
+/** Collects a FieldError for every present field that breaks its rule. */
+const checkFields = <T>(params: T, rules: FieldRules<T>, prefix = ''): FieldError[] => {
+  const errors: FieldError[] = []
+  for (const key of Object.keys(rules) as Array<keyof T & string>) {
+    const rule = rules[key]!
+    const value = params?.[key]
+    const missing = value === undefined || value === null
+    const message = missing ? (rule.required ? 'is required' : null) : rule(value)
+    if (message) {
+      errors.push({ field: `${prefix}${key}`, message })
+    }
+  }
+  return errors
+}
+
+const toFailure = (errors: FieldError[]): Failure<SurpayError> | null => {
+  if (errors.length === 0) return null
+  const summary = errors.map(({ field, message }) => `${field} ${message}`).join('; ')
+  return validationFailure(`Invalid request: ${summary}`, errors)
+}
+
+/** Validates `params` against field rules, returning a `validation_error` Failure or null. */
+const validator =
+  <T>(rules: FieldRules<T>) =>
+  (params: T): Failure<SurpayError> | null =>
+    toFailure(checkFields(params, rules))
+
+export const validatePagination = validator<PaginationParams>({ limit: positiveInteger })
+
+export const validateRequestOptions = validator<RequestOptions>({ timeoutMs: positiveNumber })
+
+export const validateCreateCustomer = validator<CreateCustomerRequest>({ externalId: text, email })
+export const validateUpdateCustomer = validator<UpdateCustomerRequest>({ externalId: text, email })
+export const validateUpsertCustomer = validator<UpsertCustomerRequest>({ externalId: required(text), email })
+
+const productFeatureErrors = (value: unknown): FieldError[] =>
+  Array.isArray(value)
+    ? value.flatMap((feature, index) => checkFields<ProductFeature>(feature, featureRules, `features[${index}].`))
+    : []
+
+export const validateCreateProduct = (params: CreateProductRequest) =>
+  toFailure([
+    ...checkFields(params, { productGroup: text, name: text, slug, features }),
+    ...productFeatureErrors(params?.features),
+  ])
+
+export const validateUpdateProduct = (params: UpdateProductRequest) =>
+  toFailure([...checkFields(params, { name: text, slug, features }), ...productFeatureErrors(params?.features)])
+
+const currencyOptions: Rule = (value) =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? null : 'must be an object keyed by currency'
+
+/** Checks each `{ [currency]: amount }` entry, which must not repeat the price's own currency. */
+const currencyOptionErrors = (value: unknown, priceCurrency: unknown): FieldError[] => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return []
+  return Object.entries(value).flatMap(([code, amount]): FieldError[] => {
+    const field = `currencyOptions.${code}`
+    const message = code === priceCurrency ? 'repeats priceCurrency' : (currency(code) ?? minorUnits(amount))
+    return message ? [{ field, message }] : []
+  })
+}
+
+export const validateCreatePrice = (params: CreatePriceRequest) =>
+  toFailure([
+    ...checkFields(params, {
+      productGroup: text,
+      price: minorUnits,
+      priceCurrency: currency,
+      recurringInterval: oneOf(RECURRING_INTERVALS),
+      slug,
+      currencyOptions,
+    }),
+    ...currencyOptionErrors(params?.currencyOptions, params?.priceCurrency),
+  ])
+
+export const validateUpdatePrice = validator<UpdatePriceRequest>({ name: text })
+
+export const validateListPrices = validator<ListPricesParams>({ productId: required(text), limit: positiveInteger })
+
+export const validateCreateCheckout = validator<CreateCheckoutRequest>({
+  productId: text,
+  successUrl: url,
+  cancelUrl: url,
+  customerEmail: email,
+  quantity: positiveInteger,
+  trialDays: positiveInteger,
+  metadata: stringRecord,
+  currency,
+})
+
+export const validateCreatePortalSession = validator<CreatePortalSessionRequest>({ customerId: text, returnUrl: url })
+
+export const validateCheck = validator<CheckRequest>({ customerId: text, quantity: positiveNumber })
+
+export const validateRecordUsage = validator<RecordUsageRequest>({
+  customerId: text,
+  featureId: text,
+  quantity: required(positiveNumber),
+  timestamp: date,
+})
+
+export const validateChangeSubscriptionPrice = validator<ChangeSubscriptionPriceRequest>({
+  priceId: text,
+  proration: oneOf(PRORATION_BEHAVIORS),
+})
+
+export const validateRefund = validator<RefundTransactionRequest>({ amount: positiveInteger })
+
+export const validateConnectAccount = validator<ConnectAccountRequest>({ email, country })
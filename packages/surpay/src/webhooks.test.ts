@@ -0,0 +1,111 @@
+import { describe, test, expect } from 'bun:test'
+import { Webhooks, signWebhookPayload } from './webhooks.js'
+
+const SECRET = 'whsec_test_secret'
+
+const eventBody = (id = 'evt_123') =>
+  JSON.stringify({
+    id,
+    type: 'transaction.succeeded',
+    createdAt: '2024-01-01T00:00:00Z',
+    data: {
+      id: 'txn_123',
+      createdAt: '2024-01-01T00:00:00Z',
+      type: 'payment',
+      amount: 999,
+      currency: 'usd',
+      processor: 'whop',
+    },
+  })
+
+describe('Webhooks.constructEvent', () => {
+  test('returns the typed event for a valid signature', async () => {
+    const body = eventBody()
+    const header = await signWebhookPayload(body, SECRET)
+
+    const { data, error } = await new Webhooks().constructEvent(body, header, SECRET)
+
+    expect(error).toBeNull()
+    expect(data!.type).toBe('transaction.succeeded')
+    if (data!.type === 'transaction.succeeded') {
+      expect(data!.data.amount).toBe(999)
+    }
+  })
+
+  test('accepts a Uint8Array body', async () => {
+    const body = eventBody()
+    const header = await signWebhookPayload(body, SECRET)
+
+    const { error } = await new Webhooks().constructEvent(new TextEncoder().encode(body), header, SECRET)
+
+    expect(error).toBeNull()
+  })
+
+  test('rejects a signature made with another secret', async () => {
+    const body = eventBody()
+    const header = await signWebhookPayload(body, 'whsec_other')
+
+    const { error } = await new Webhooks().constructEvent(body, header, SECRET)
+
+    expect(error?.code).toBe('invalid_signature')
+  })
+
+  test('rejects a tampered body', async () => {
+    const header = await signWebhookPayload(eventBody(), SECRET)
+
+    const { error } = await new Webhooks().constructEvent(eventBody('evt_other'), header, SECRET)
+
+    expect(error?.code).toBe('invalid_signature')
+  })
+
+  test('rejects a missing or malformed header', async () => {
+    const webhooks = new Webhooks()
+
+    expect((await webhooks.constructEvent(eventBody(), undefined, SECRET)).error?.code).toBe('invalid_signature_header')
+    expect((await webhooks.constructEvent(eventBody(), 'v1=abc', SECRET)).error?.code).toBe('invalid_signature_header')
+  })
+
+  test('rejects timestamps outside the tolerance window', async () => {
+    const body = eventBody()
+    const tenMinutesAgo = Math.floor(Date.now() / 1000) - 600
+    const header = await signWebhookPayload(body, SECRET, tenMinutesAgo)
+
+    const { error } = await new Webhooks().constructEvent(body, header, SECRET)
+    expect(error?.code).toBe('timestamp_out_of_tolerance')
+
+    const widened = await new Webhooks().constructEvent(body, header, SECRET, { toleranceSeconds: 900 })
+    expect(widened.error).toBeNull()
+  })
+
+  test('accepts redeliveries until the event is marked as processed', async () => {
+    const webhooks = new Webhooks()
+    const body = eventBody()
+    const header = await signWebhookPayload(body, SECRET)
+
+    expect((await webhooks.constructEvent(body, header, SECRET)).error).toBeNull()
+    expect((await webhooks.constructEvent(body, header, SECRET)).error).toBeNull()
+    webhooks.markProcessed('evt_123')
+    expect((await webhooks.constructEvent(body, header, SECRET)).error?.code).toBe('replayed_event')
+  })
+
+  test('rejects unknown event types', async () => {
+    const body = JSON.stringify({ id: 'evt_1', type: 'something.else', createdAt: '', data: {} })
+    const header = await signWebhookPayload(body, SECRET)
+
+    const { error } = await new Webhooks().constructEvent(body, header, SECRET)
+
+    expect(error?.code).toBe('invalid_payload')
+  })
+
+  test('rejects events without a data object', async () => {
+    const webhooks = new Webhooks()
+    const { data: _data, ...withoutData } = JSON.parse(eventBody())
+
+    for (const payload of [withoutData, { ...withoutData, data: null }, { ...withoutData, data: [] }]) {
+      const body = JSON.stringify(payload)
+      const header = await signWebhookPayload(body, SECRET)
+
+      expect((await webhooks.constructEvent(body, header, SECRET)).error?.code).toBe('invalid_payload')
+    }
+  })
+})
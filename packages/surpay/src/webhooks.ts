@@ -0,0 +1,168 @@
+/**
+ * Webhook signature verification and event parsing.
+ *
+ * Surpay signs every webhook delivery with HMAC-SHA256 over `${timestamp}.${rawBody}`
+ * and sends the result in the `Surpay-Signature` header as `t=<unix seconds>,v1=<hex digest>`.
+ * Multiple `v1` entries may be present while a secret is being rotated.
+ * Digests are computed with the global Web Crypto API (`crypto.subtle`), which Node provides from version 20.
+ */
+
+import { SurpayError } from './errors.js'
+import type { ConstructEventOptions, Result, WebhookEvent, WebhookEventType } from './types.js'
+
+export const WEBHOOK_SIGNATURE_HEADER = 'surpay-signature'
+
+const DEFAULT_TOLERANCE_SECONDS = 300
+
+const EVENT_TYPES: ReadonlySet<WebhookEventType> = new Set([
+  'checkout.completed',
+  'subscription.status_changed',
+  'transaction.succeeded',
+  'transaction.refunded',
+])
+
+const encoder = new TextEncoder()
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const hmacSha256Hex = async (secret: string, payload: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ])
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload))
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/** Constant-time string comparison to avoid leaking digest prefixes through timing. */
+const safeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+const parseSignatureHeader = (header: string): { timestamp: number; signatures: string[] } | null => {
+  let timestamp: number | null = null
+  const signatures: string[] = []
+
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2)
+    if (!key || !value) continue
+    if (key === 't') timestamp = Number(value)
+    if (key === 'v1') signatures.push(value)
+  }
+
+  if (timestamp === null || !Number.isInteger(timestamp) || signatures.length === 0) {
+    return null
+  }
+  return { timestamp, signatures }
+}
+
+const failure = (message: string, code: string): Result<never, SurpayError> => ({
+  data: null,
+  error: new SurpayError({ message, code, statusCode: 400 }),
+  statusCode: 400,
+})
+
+/**
+ * Signs a payload the same way Surpay does. Returns a value suitable for the `Surpay-Signature` header.
+ * Useful for testing webhook handlers locally.
+ */
+export const signWebhookPayload = async (
+  rawBody: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Promise<string> => {
+  const signature = await hmacSha256Hex(secret, `${timestamp}.${rawBody}`)
+  return `t=${timestamp},v1=${signature}`
+}
+
+export class Webhooks {
+  /** Event IDs marked as processed, mapped to the time (ms) after which they can be forgotten. */
+  private readonly processedEvents = new Map<string, number>()
+
+  /** @param onEvent Called with every verified event before it is returned */
+  constructor(private readonly onEvent?: (event: WebhookEvent) => void) {}
+
+  /**
+   * Verifies the signature of a webhook delivery and parses it into a typed event.
+   *
+   * Pass the raw request body exactly as received - re-serialized JSON will not match the signature.
+   * Events passed to `markProcessed()` are rejected as replays while their signature could still be valid.
+   * Surpay redelivers events whose handler failed, so other repeats are accepted: handlers must be idempotent.
+   */
+  constructEvent = async (
+    rawBody: string | Uint8Array,
+    signatureHeader: string | null | undefined,
+    secret: string,
+    options: ConstructEventOptions = {}
+  ): Promise<Result<WebhookEvent, SurpayError>> => {
+    const toleranceSeconds = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS
+    const body = typeof rawBody === 'string' ? rawBody : new TextDecoder().decode(rawBody)
+
+    if (!secret) {
+      return failure('Webhook secret is required', 'missing_webhook_secret')
+    }
+
+    const parsedHeader = signatureHeader ? parseSignatureHeader(signatureHeader) : null
+    if (!parsedHeader) {
+      return failure('Missing or malformed Surpay-Signature header', 'invalid_signature_header')
+    }
+
+    const nowSeconds = Math.floor(Date.now() / 1000)
+    if (Math.abs(nowSeconds - parsedHeader.timestamp) > toleranceSeconds) {
+      return failure(
+        `Webhook timestamp is outside the tolerance window of ${toleranceSeconds}s`,
+        'timestamp_out_of_tolerance'
+      )
+    }
+
+    const expected = await hmacSha256Hex(secret, `${parsedHeader.timestamp}.${body}`)
+    if (!parsedHeader.signatures.some((signature) => safeEqual(signature, expected))) {
+      return failure('Webhook signature does not match the payload', 'invalid_signature')
+    }
+
+    let event: WebhookEvent
+    try {
+      event = JSON.parse(body) as WebhookEvent
+    } catch {
+      return failure('Webhook payload is not valid JSON', 'invalid_payload')
+    }
+
+    // Handlers and the response cache read `data` by event type, so an event without an object there is unusable
+    if (!isRecord(event) || typeof event.id !== 'string' || !EVENT_TYPES.has(event.type) || !isRecord(event.data)) {
+      return failure('Webhook payload is not a recognized Surpay event', 'invalid_payload')
+    }
+
+    this.pruneProcessedEvents()
+    if (this.processedEvents.has(event.id)) {
+      return failure(`Webhook event ${event.id} has already been processed`, 'replayed_event')
+    }
+    this.onEvent?.(event)
+
+    return { data: event, error: null, statusCode: 200 }
+  }
+
+  /**
+   * Records that an event was handled successfully, so `constructEvent()` rejects further deliveries of it
+   * with `replayed_event`. Pass the same `toleranceSeconds` as to `constructEvent()`.
+   *
+   * The record lives in this process only. Deployments with several instances or serverless functions
+   * need their own store of processed event IDs to deduplicate across them.
+   */
+  markProcessed = (eventId: string, options: ConstructEventOptions = {}): void => {
+    const toleranceSeconds = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS
+    // A signature stays valid up to toleranceSeconds on either side of its timestamp
+    this.processedEvents.set(eventId, Date.now() + (toleranceSeconds * 2 + 1) * 1000)
+  }
+
+  private pruneProcessedEvents(): void {
+    const now = Date.now()
+    for (const [id, expiresAt] of this.processedEvents) {
+      if (expiresAt <= now) this.processedEvents.delete(id)
+    }
+  }
+}